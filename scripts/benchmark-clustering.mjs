@@ -0,0 +1,209 @@
+// SketchToCad-Frontend/scripts/benchmark-clustering.mjs
+//
+// Benchmark fixture for the clustering canvas hot paths at site-plan scale.
+// Transpiles the scatter utilities on the fly and times what the canvas does
+// per dataset, per frame and per pointer move, plus a DBSCAN suggestion run,
+// failing when a step exceeds its interactive budget.
+//
+//   node scripts/benchmark-clustering.mjs [--points 20000] [--polygons 12]
+//
+// Drawing itself happens in the browser; for an end-to-end check run
+// `npm run mock:gateway -- --beds 20000` and cluster the result.
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const POINT_COUNT = Number(option('points', 20000));
+const POLYGON_COUNT = Number(option('polygons', 12));
+const HOVER_QUERIES = 1000;
+// DBSCAN settings in the fixture's colour units, and the subset checked against a brute-force run
+const DBSCAN_EPS = 3;
+const DBSCAN_MIN_POINTS = 5;
+const DBSCAN_REFERENCE_POINTS = 3000;
+
+// Budgets in milliseconds: one frame at 60 fps for per-frame work, a fraction of it per pointer move
+const BUDGETS = {
+  buildIndex: 50,
+  mapFrame: 16,
+  hoverQuery: 1,
+  membership: 50,
+  dbscan: 250,
+  suggestEps: 100
+};
+
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+const require = createRequire(import.meta.url);
+
+// Compile the utils to CommonJS in a temp dir; type-only imports disappear in the process
+function loadUtils() {
+  const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sketchtocad-bench-'));
+  ['geometry.utils', 'spatial-index.utils', 'clustering.utils'].forEach(name => {
+    const source = fs.readFileSync(path.join(root, 'src/utils', `${name}.ts`), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 }
+    });
+    fs.writeFileSync(path.join(outDir, `${name}.js`), outputText);
+  });
+
+  const utils = {
+    ...require(path.join(outDir, 'geometry.utils.js')),
+    ...require(path.join(outDir, 'spatial-index.utils.js')),
+    ...require(path.join(outDir, 'clustering.utils.js'))
+  };
+  fs.rmSync(outDir, { recursive: true, force: true });
+  return utils;
+}
+
+// Deterministic blobs of colour data, similar to a plan with a few marker colours
+function createFixture(count) {
+  let seed = 1234;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+  const gaussian = () => Math.sqrt(-2 * Math.log(random() || 1e-9)) * Math.cos(2 * Math.PI * random());
+  const centres = Array.from({ length: 8 }, () => [random() * 255, random() * 255]);
+
+  const xs = new Array(count);
+  const ys = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const [cx, cy] = centres[i % centres.length];
+    xs[i] = cx + gaussian() * 12;
+    ys[i] = cy + gaussian() * 12;
+  }
+
+  const polygons = Array.from({ length: POLYGON_COUNT }, (_, p) => {
+    const [cx, cy] = centres[p % centres.length];
+    const radius = 15 + random() * 25;
+    return Array.from({ length: 12 }, (__, v) => {
+      const angle = (v / 12) * Math.PI * 2;
+      return { x: cx + Math.cos(angle) * radius, y: cy + Math.sin(angle) * radius };
+    });
+  });
+
+  return { xs, ys, polygons };
+}
+
+// Median minPoints-th neighbour distance of every point, measured against all points
+function referenceSuggestEps(points, minPoints) {
+  const kDistances = points.map(point => {
+    const distances = points.map(other => (point[0] - other[0]) ** 2 + (point[1] - other[1]) ** 2).sort((a, b) => a - b);
+    return Math.sqrt(distances[minPoints]);
+  }).sort((a, b) => a - b);
+  return kDistances[Math.floor(kDistances.length / 2)];
+}
+
+// The plain O(n²) algorithm the indexed version has to agree with
+function referenceDbscan(points, eps, minPoints) {
+  const labels = new Array(points.length).fill(undefined);
+  const neighbours = i => points.flatMap((point, j) =>
+    (point[0] - points[i][0]) ** 2 + (point[1] - points[i][1]) ** 2 <= eps * eps ? [j] : []
+  );
+
+  let cluster = 0;
+  for (let i = 0; i < points.length; i++) {
+    if (labels[i] !== undefined) continue;
+    const seeds = neighbours(i);
+    if (seeds.length < minPoints) {
+      labels[i] = -1;
+      continue;
+    }
+    labels[i] = cluster;
+    const queue = seeds.filter(j => j !== i);
+    for (let head = 0; head < queue.length; head++) {
+      const j = queue[head];
+      if (labels[j] === -1) labels[j] = cluster;
+      if (labels[j] !== undefined) continue;
+      labels[j] = cluster;
+      const expansion = neighbours(j);
+      if (expansion.length >= minPoints) queue.push(...expansion);
+    }
+    cluster++;
+  }
+  return labels;
+}
+
+function time(label, runs, fn) {
+  fn();
+  const start = performance.now();
+  let result;
+  for (let i = 0; i < runs; i++) result = fn(i);
+  const ms = (performance.now() - start) / runs;
+  return { label, ms, result };
+}
+
+const { createGridIndex, queryNearest, queryPolygon, computeBounds, pointInPolygon, dbscan, suggestEps } = loadUtils();
+const { xs, ys, polygons } = createFixture(POINT_COUNT);
+
+const build = time('buildIndex', 10, () => createGridIndex(xs, ys));
+const index = build.result;
+
+// What the points shape does each frame: map every bed with the cached bounds
+const mapFrame = time('mapFrame', 20, () => {
+  const { minX, maxX, minY, maxY } = index.bounds;
+  let checksum = 0;
+  for (let i = 0; i < xs.length; i++) {
+    checksum += 50 + ((xs[i] - minX) / (maxX - minX)) * 700 + 550 - ((ys[i] - minY) / (maxY - minY)) * 500;
+  }
+  return checksum;
+});
+
+const hoverQuery = time('hoverQuery', HOVER_QUERIES, i => {
+  const j = (i * 7919) % xs.length;
+  return queryNearest(index, xs, ys, xs[j] + 0.5, ys[j] - 0.5, 2, 2);
+});
+
+const membership = time('membership', 10, () =>
+  polygons.reduce((sum, polygon) => sum + queryPolygon(index, xs, ys, polygon).length, 0)
+);
+
+// The index must agree with a full scan
+const mismatched = polygons.filter(polygon => {
+  const indexed = queryPolygon(index, xs, ys, polygon).sort((a, b) => a - b);
+  const scanned = xs.flatMap((x, i) => pointInPolygon({ x, y: ys[i] }, polygon) ? [i] : []);
+  return indexed.length !== scanned.length || indexed.some((value, i) => value !== scanned[i]);
+}).length;
+
+const points = xs.map((x, i) => [x, ys[i]]);
+const dbscanRun = time('dbscan', 3, () => dbscan(points, DBSCAN_EPS, DBSCAN_MIN_POINTS));
+const dbscanClusters = new Set(dbscanRun.result.filter(label => label !== -1)).size;
+
+const referencePoints = points.slice(0, DBSCAN_REFERENCE_POINTS);
+const indexedLabels = dbscan(referencePoints, DBSCAN_EPS, DBSCAN_MIN_POINTS);
+const dbscanMatches = referenceDbscan(referencePoints, DBSCAN_EPS, DBSCAN_MIN_POINTS)
+  .every((label, i) => label === indexedLabels[i]);
+
+const epsRun = time('suggestEps', 3, () => suggestEps(points, DBSCAN_MIN_POINTS));
+// Below 500 points every point is a query, so the indexed median must match exactly
+const epsPoints = points.slice(0, 400);
+const epsMatches = Math.abs(suggestEps(epsPoints, DBSCAN_MIN_POINTS) - referenceSuggestEps(epsPoints, DBSCAN_MIN_POINTS)) < 1e-9;
+
+// The old mapping recomputed min/max on every call; estimate its frame from a small sample
+const sample = 200;
+const legacyStart = performance.now();
+for (let i = 0; i < sample; i++) computeBounds(xs, ys);
+// Four single-array scans per call are about two computeBounds passes, once per point and frame
+const legacyFrameMs = ((performance.now() - legacyStart) / sample) * xs.length * 2;
+
+console.log(`Clustering canvas benchmark: ${POINT_COUNT} points, ${POLYGON_COUNT} polygons`);
+let failed = mismatched > 0 || !dbscanMatches || !epsMatches;
+[build, mapFrame, hoverQuery, membership, dbscanRun, epsRun].forEach(({ label, ms }) => {
+  const ok = ms <= BUDGETS[label];
+  failed = failed || !ok;
+  console.log(`  ${ok ? 'PASS' : 'FAIL'}  ${label.padEnd(11)} ${ms.toFixed(3).padStart(9)} ms  (budget ${BUDGETS[label]} ms)`);
+});
+console.log(`  ${mismatched === 0 ? 'PASS' : 'FAIL'}  polygon membership matches a full scan (${membership.result} polygon hits)`);
+console.log(`  ${dbscanMatches ? 'PASS' : 'FAIL'}  DBSCAN matches a brute-force run on ${referencePoints.length} points (${dbscanClusters} clusters at full size)`);
+console.log(`  ${epsMatches ? 'PASS' : 'FAIL'}  suggested eps matches a full scan on ${epsPoints.length} points (eps ${epsRun.result.toFixed(3)} at full size)`);
+console.log(`  info  per-call bounds mapping would need ~${Math.round(legacyFrameMs)} ms per frame`);
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,369 @@
+// SketchToCad-Frontend/scripts/mock-gateway.mjs
+//
+// Local stand-in for the API gateway so the workflow status transports can be
+// exercised without the backend. Serves the saga endpoints under /api/v1/workflow
+// and pushes status updates over both SSE and WebSocket at /:sagaId/events.
+//
+//   node scripts/mock-gateway.mjs [--port 8000] [--step-ms 1500] [--beds 60] [--no-push] [--fail-at <status>]
+//
+// --no-push answers the events endpoint with 404 so the polling fallback kicks in.
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const PORT = Number(option('port', 8000));
+const STEP_MS = Number(option('step-ms', 1500));
+const BED_COUNT = Number(option('beds', 60));
+const PUSH_ENABLED = !args.includes('--no-push');
+const FAIL_AT = option('fail-at', null);
+
+const PREFIX = '/api/v1/workflow';
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Status sequence driven by each user action; the last entry is where the saga waits
+const PHASES = {
+  start: ['started', 'processing_image', 'generating_enhanced_colors', 'awaiting_enhancement_selection'],
+  enhancement: ['applying_enhancement', 'awaiting_clustering'],
+  clustering: ['processing_clustering', 'exporting_dxf', 'completed'],
+  export: ['exporting_dxf', 'completed']
+};
+
+const sagas = new Map();
+
+function createBeds(count) {
+  const palette = [[220, 60, 60], [60, 180, 70], [70, 90, 210], [230, 200, 40], [160, 70, 200]];
+
+  // Lay beds out on a square grid that always fits the 1000x1000 image, even for --beds 20000
+  const columns = Math.max(10, Math.ceil(Math.sqrt(count)));
+  const cell = 920 / columns;
+  const size = cell * 0.78;
+
+  return Array.from({ length: count }, (_, index) => {
+    const base = palette[index % palette.length];
+    const rgb = base.map(channel => Math.max(0, Math.min(255, channel + Math.round((Math.random() - 0.5) * 40))));
+    const x = 40 + (index % columns) * cell;
+    const y = 40 + Math.floor(index / columns) * cell;
+
+    return {
+      // Sparse ids, as after the backend drops beds, so index/id mix-ups show up
+      bed_id: 100 + index * 3,
+      area: 2000 + Math.round(Math.random() * 6000),
+      rgb_median: rgb,
+      rgb_mean: rgb.map(channel => channel + Math.random()),
+      clean_pixel_count: 1500 + Math.round(Math.random() * 4000),
+      position: { x: x + size / 2, y: y + size / 2 },
+      polygons: [[[x, y], [x + size, y], [x + size, y + size], [x, y + size]]]
+    };
+  });
+}
+
+function createEnhancedColors(beds) {
+  const original = beds.map(bed => bed.rgb_median);
+  const scale = rows => rows.map(row => row.map(value => Math.round(value * 100) / 100));
+
+  return {
+    original,
+    enhanced_saturation: scale(original.map(([r, g, b]) => {
+      const mean = (r + g + b) / 3;
+      return [r, g, b].map(channel => Math.max(0, Math.min(255, mean + (channel - mean) * 1.6)));
+    })),
+    contrast_stretched: scale(original.map(row => row.map(channel => Math.min(255, Math.max(0, (channel - 30) * 1.3))))),
+    color_ratios: scale(original.map(([r, g, b]) => {
+      const sum = r + g + b || 1;
+      return [r / sum, g / sum, b / sum];
+    })),
+    pca_features: scale(original.map(([r, g, b]) => [(r - b) / 2, (2 * g - r - b) / 4, (r + g + b) / 3]))
+  };
+}
+
+function snapshot(saga) {
+  return {
+    saga_id: saga.saga_id,
+    status: saga.status,
+    current_step: saga.current_step,
+    session_id: saga.session_id,
+    created_at: saga.created_at,
+    updated_at: saga.updated_at,
+    completed_at: saga.completed_at,
+    total_duration_ms: saga.completed_at ? Date.parse(saga.completed_at) - Date.parse(saga.created_at) : null,
+    error_message: saga.error_message,
+    result_data: saga.result_data,
+    steps: saga.steps.map(({ started_at, ...step }) => step)
+  };
+}
+
+function broadcast(saga) {
+  const payload = JSON.stringify(snapshot(saga));
+  saga.subscribers.forEach(send => send(payload));
+}
+
+function setStatus(saga, status) {
+  const now = new Date();
+  const previous = saga.steps[saga.steps.length - 1];
+  if (previous && previous.status === 'running') {
+    previous.status = 'completed';
+    previous.duration_ms = now.getTime() - previous.started_at;
+  }
+
+  saga.status = status;
+  saga.current_step = status;
+  saga.updated_at = now.toISOString();
+
+  if (status === FAIL_AT) {
+    saga.status = 'failed';
+    saga.error_message = `Mock failure injected at ${status}`;
+    saga.steps.push({ step_name: status, status: 'failed', duration_ms: 0, error_message: saga.error_message });
+  } else if (status.startsWith('awaiting_') || status === 'completed' || status === 'compensated') {
+    saga.current_step = null;
+    if (status === 'completed') {
+      saga.completed_at = saga.updated_at;
+    }
+  } else {
+    saga.steps.push({ step_name: status, status: 'running', duration_ms: null, started_at: now.getTime() });
+  }
+
+  console.log(`[${saga.saga_id}] ${saga.status}`);
+  broadcast(saga);
+}
+
+function runPhase(saga, phase) {
+  const statuses = PHASES[phase];
+  statuses.forEach((status, index) => {
+    setTimeout(() => {
+      if (saga.status !== 'failed' && !saga.cancelled) {
+        setStatus(saga, status);
+      }
+    }, index * STEP_MS);
+  });
+}
+
+function readBody(req) {
+  return new Promise(resolve => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+function sendJson(res, statusCode, body) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function handleEvents(req, res, saga) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  const send = payload => res.write(`data: ${payload}\n\n`);
+  saga.subscribers.add(send);
+  send(JSON.stringify(snapshot(saga)));
+
+  req.on('close', () => saga.subscribers.delete(send));
+}
+
+// Minimal server-to-client WebSocket: handshake plus unmasked text frames
+function encodeFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+function handleUpgrade(req, socket) {
+  const match = matchRoute(req.url);
+  const saga = match && match.action === 'events' ? sagas.get(match.sagaId) : null;
+
+  if (!PUSH_ENABLED || !saga || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(req.headers['sec-websocket-key'] + WS_GUID)
+    .digest('base64');
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n'
+  ].join('\r\n'));
+
+  const send = payload => socket.write(encodeFrame(payload));
+  saga.subscribers.add(send);
+  send(JSON.stringify(snapshot(saga)));
+
+  // Any client frame (including close) ends the subscription
+  const unsubscribe = () => {
+    saga.subscribers.delete(send);
+    socket.destroy();
+  };
+  socket.on('data', unsubscribe);
+  socket.on('error', unsubscribe);
+  socket.on('close', () => saga.subscribers.delete(send));
+}
+
+function matchRoute(url) {
+  const path = new URL(url, 'http://localhost').pathname;
+  if (!path.startsWith(PREFIX)) return null;
+
+  const [sagaId, action] = path.slice(PREFIX.length).split('/').filter(Boolean);
+  return { sagaId, action: action || null };
+}
+
+async function handleRequest(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const route = matchRoute(req.url);
+  if (!route) {
+    sendJson(res, 404, { detail: 'Not found' });
+    return;
+  }
+
+  if (req.method === 'POST' && route.sagaId === 'start') {
+    await readBody(req);
+    const beds = createBeds(BED_COUNT);
+    const now = new Date().toISOString();
+    const saga = {
+      saga_id: crypto.randomUUID(),
+      session_id: crypto.randomUUID(),
+      status: 'started',
+      current_step: null,
+      created_at: now,
+      updated_at: now,
+      completed_at: null,
+      error_message: null,
+      steps: [],
+      subscribers: new Set(),
+      result_data: {
+        bed_count: beds.length,
+        bed_data: beds,
+        image_shape: [1000, 1000, 3],
+        processing_time_ms: STEP_MS * 2,
+        enhanced_colors: createEnhancedColors(beds),
+        enhancement_methods: ['original', 'enhanced_saturation', 'contrast_stretched', 'color_ratios', 'pca_features'],
+        statistics: {
+          raw_border_pixels: 120000,
+          clean_border_pixels: 98000,
+          final_border_pixels: 91000,
+          total_beds_found: beds.length,
+          total_areas_detected: beds.length,
+          average_bed_size: 5000,
+          largest_bed_size: 8000,
+          smallest_bed_size: 2000
+        }
+      }
+    };
+
+    sagas.set(saga.saga_id, saga);
+    runPhase(saga, 'start');
+    sendJson(res, 202, { saga_id: saga.saga_id, session_id: saga.session_id, status: saga.status, message: 'Workflow started' });
+    return;
+  }
+
+  const saga = sagas.get(route.sagaId);
+  if (!saga) {
+    sendJson(res, 404, { detail: `Saga ${route.sagaId} not found` });
+    return;
+  }
+
+  if (req.method === 'GET' && route.action === null) {
+    sendJson(res, 200, snapshot(saga));
+    return;
+  }
+
+  if (req.method === 'GET' && route.action === 'events') {
+    if (!PUSH_ENABLED) {
+      sendJson(res, 404, { detail: 'Push updates disabled' });
+      return;
+    }
+    handleEvents(req, res, saga);
+    return;
+  }
+
+  if (req.method === 'GET' && route.action === 'download') {
+    res.writeHead(200, { 'Content-Type': 'application/dxf' });
+    res.end('0\nSECTION\n2\nENTITIES\n0\nENDSEC\n0\nEOF\n');
+    return;
+  }
+
+  if (req.method === 'POST' && route.action === 'cancel') {
+    saga.cancelled = true;
+    saga.error_message = 'Cancelled by user';
+    setStatus(saga, 'compensating');
+    setTimeout(() => setStatus(saga, 'compensated'), STEP_MS);
+    sendJson(res, 202, { saga_id: saga.saga_id, status: saga.status });
+    return;
+  }
+
+  if (req.method === 'POST' && ['enhancement', 'clustering', 'export'].includes(route.action)) {
+    const body = JSON.parse((await readBody(req)).toString() || '{}');
+    if (route.action === 'clustering') {
+      const known = new Set(saga.result_data.bed_data.map(bed => bed.bed_id));
+      const unknown = Object.values(body.clusters_data || {}).flat().filter(bedId => !known.has(bedId));
+      if (unknown.length > 0) {
+        sendJson(res, 422, { detail: `Unknown bed ids: ${unknown.slice(0, 10).join(', ')}` });
+        return;
+      }
+    }
+    saga.result_data = { ...saga.result_data, ...body };
+    if (route.action === 'clustering') {
+      saga.result_data.processed_clusters = body.clusters_data;
+    }
+    if (route.action !== 'enhancement') {
+      saga.result_data.download_url = `${PREFIX}/${saga.saga_id}/download`;
+    }
+
+    runPhase(saga, route.action);
+    sendJson(res, 202, { saga_id: saga.saga_id, status: saga.status });
+    return;
+  }
+
+  sendJson(res, 404, { detail: 'Not found' });
+}
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    console.error(error);
+    sendJson(res, 500, { detail: error.message });
+  });
+});
+
+server.on('upgrade', handleUpgrade);
+
+server.listen(PORT, () => {
+  console.log(`Mock gateway listening on http://localhost:${PORT}${PREFIX}`);
+  console.log(`Push updates: ${PUSH_ENABLED ? 'SSE + WebSocket' : 'disabled (polling only)'}, step every ${STEP_MS}ms`);
+});
@@ -0,0 +1,229 @@
+// SketchToCad-Frontend/src/app/components/AutoClusterPanel.tsx
+"use client";
+
+import { useMemo, useState } from 'react';
+import {
+  dbscan,
+  estimateK,
+  KEstimate,
+  kMeans,
+  NOISE_LABEL,
+  silhouetteScore,
+  standardize,
+  suggestEps
+} from '@/utils/clustering.utils';
+
+interface AutoClusterPanelProps {
+  points: number[][];
+  // Receives one label per point; NOISE_LABEL means leave the bed as it is
+  onApply: (labels: number[]) => void;
+}
+
+type Algorithm = 'kmeans' | 'dbscan';
+
+interface SuggestionRun {
+  id: number;
+  settings: string;
+  labels: number[];
+  clusterCount: number;
+  noiseCount: number;
+  silhouette: number | null;
+}
+
+const formatScore = (score: number | null) => score === null ? 'n/a' : score.toFixed(3);
+
+export default function AutoClusterPanel({ points, onApply }: AutoClusterPanelProps) {
+  const [algorithm, setAlgorithm] = useState<Algorithm>('kmeans');
+  const [autoK, setAutoK] = useState(true);
+  const [k, setK] = useState(4);
+  const [minPoints, setMinPoints] = useState(4);
+  const [eps, setEps] = useState<number | null>(null);
+  const [normalize, setNormalize] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runs, setRuns] = useState<SuggestionRun[]>([]);
+  const [activeRunId, setActiveRunId] = useState<number | null>(null);
+  const [kEstimates, setKEstimates] = useState<KEstimate[]>([]);
+
+  const features = useMemo(() => normalize ? standardize(points) : points, [points, normalize]);
+
+  const applyRun = (run: SuggestionRun) => {
+    setActiveRunId(run.id);
+    onApply(run.labels);
+  };
+
+  const runSuggestion = () => {
+    if (features.length < 3) return;
+
+    setIsRunning(true);
+    // Yield once so the button can show its busy state before the main thread is blocked
+    setTimeout(() => {
+      let labels: number[];
+      let settings: string;
+
+      if (algorithm === 'kmeans') {
+        let chosenK = k;
+        if (autoK) {
+          const estimates = estimateK(features);
+          setKEstimates(estimates);
+          const best = estimates.reduce<KEstimate | null>(
+            (top, estimate) => (estimate.silhouette ?? -Infinity) > (top?.silhouette ?? -Infinity) ? estimate : top,
+            null
+          );
+          chosenK = best?.k ?? k;
+          setK(chosenK);
+        }
+        labels = kMeans(features, chosenK).labels;
+        settings = `k-means, k=${chosenK}${autoK ? ' (auto)' : ''}`;
+      } else {
+        const radius = eps ?? suggestEps(features, minPoints);
+        setEps(radius);
+        labels = dbscan(features, radius, minPoints);
+        settings = `DBSCAN, eps=${radius.toFixed(3)}, min=${minPoints}`;
+      }
+
+      const run: SuggestionRun = {
+        id: Date.now(),
+        settings: normalize ? settings : `${settings}, raw`,
+        labels,
+        clusterCount: new Set(labels.filter(label => label !== NOISE_LABEL)).size,
+        noiseCount: labels.filter(label => label === NOISE_LABEL).length,
+        silhouette: silhouetteScore(features, labels)
+      };
+
+      setRuns(prev => [run, ...prev].slice(0, 8));
+      applyRun(run);
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const activeRun = runs.find(run => run.id === activeRunId) || null;
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+      <h4 className="font-semibold">Auto-suggest Clusters</h4>
+
+      <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+        {(['kmeans', 'dbscan'] as Algorithm[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setAlgorithm(option)}
+            className={`px-3 py-1 text-sm font-medium ${
+              algorithm === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option === 'kmeans' ? 'k-means' : 'DBSCAN'}
+          </button>
+        ))}
+      </div>
+
+      {algorithm === 'kmeans' ? (
+        <div className="text-sm space-y-2">
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={autoK} onChange={e => setAutoK(e.target.checked)} />
+            <span>Estimate k from silhouette score</span>
+          </label>
+          <label className="flex items-center justify-between">
+            <span>Clusters (k)</span>
+            <input
+              type="number"
+              min={2}
+              max={20}
+              value={k}
+              disabled={autoK}
+              onChange={e => setK(Math.max(2, Number(e.target.value) || 2))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+            />
+          </label>
+        </div>
+      ) : (
+        <div className="text-sm space-y-2">
+          <label className="flex items-center justify-between">
+            <span>Radius (eps)</span>
+            <input
+              type="number"
+              step="0.01"
+              min={0}
+              value={eps ?? ''}
+              placeholder="auto"
+              onChange={e => setEps(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+              className="w-24 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center justify-between">
+            <span>Min beds per core</span>
+            <input
+              type="number"
+              min={1}
+              value={minPoints}
+              onChange={e => setMinPoints(Math.max(1, Number(e.target.value) || 1))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+        </div>
+      )}
+
+      <label className="flex items-center space-x-2 text-sm">
+        <input type="checkbox" checked={normalize} onChange={e => setNormalize(e.target.checked)} />
+        <span>Normalize color channels</span>
+      </label>
+
+      <button
+        onClick={runSuggestion}
+        disabled={isRunning || points.length < 3}
+        className={`w-full px-4 py-2 rounded-lg font-medium ${
+          isRunning || points.length < 3
+            ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            : 'bg-indigo-600 text-white hover:bg-indigo-700'
+        }`}
+      >
+        {isRunning ? 'Clustering...' : 'Auto-suggest Clusters'}
+      </button>
+
+      {activeRun && (
+        <div className="text-sm bg-white border border-gray-200 rounded p-2">
+          <p>Silhouette score: <span className="font-semibold">{formatScore(activeRun.silhouette)}</span></p>
+          <p>{activeRun.clusterCount} clusters{activeRun.noiseCount > 0 && `, ${activeRun.noiseCount} beds left as they were`}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Suggestions are pre-filled as bed assignments; fix edge cases on the sketch before processing.
+          </p>
+        </div>
+      )}
+
+      {algorithm === 'kmeans' && autoK && kEstimates.length > 0 && (
+        <div className="text-xs text-gray-600">
+          <p className="font-medium mb-1">Silhouette by k</p>
+          <div className="flex flex-wrap gap-1">
+            {kEstimates.map(estimate => (
+              <span
+                key={estimate.k}
+                className={`px-2 py-0.5 rounded ${estimate.k === k ? 'bg-indigo-100 text-indigo-800' : 'bg-white border border-gray-200'}`}
+              >
+                k={estimate.k}: {formatScore(estimate.silhouette)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {runs.length > 1 && (
+        <div className="text-xs">
+          <p className="font-medium text-gray-600 mb-1">Previous runs</p>
+          <div className="space-y-1">
+            {runs.map(run => (
+              <button
+                key={run.id}
+                onClick={() => applyRun(run)}
+                className={`w-full flex justify-between px-2 py-1 rounded text-left ${
+                  run.id === activeRunId ? 'bg-indigo-100 text-indigo-800' : 'bg-white border border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <span>{run.settings}</span>
+                <span>{formatScore(run.silhouette)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+// SketchToCad-Frontend/src/app/components/BatchProcessor.tsx
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { BatchItem, BatchItemState } from '../types/batch/BatchItem';
+import { ClusteringTemplate } from '../types/clustering/ClusteringTemplate';
+import { RasterisedPage } from '../types/image/DocumentPage';
+import { batchService, DEFAULT_BATCH_CONCURRENCY } from '../../services/batch.service';
+import { clusteringTemplateService } from '../../services/clustering-template.service';
+import { documentRasterService } from '../../services/document-raster.service';
+import { sessionService } from '../../services/session.service';
+import { API_CONFIG } from '../../config/api.config';
+import { IMAGE_CONFIG } from '../../config/image.config';
+import { formatBytes } from '../../utils/image-preflight.utils';
+import { ENHANCEMENT_METHODS } from './EnhancementSelector';
+import DocumentPagePicker from './DocumentPagePicker';
+
+interface BatchProcessorProps {
+  // Document pages picked elsewhere, to be added to the queue
+  pages: RasterisedPage[];
+  onPagesQueued: () => void;
+}
+
+const MAX_CONCURRENCY = 8;
+
+const STATE_STYLES: Record<BatchItemState, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  uploading: { label: 'Uploading', className: 'bg-blue-100 text-blue-800' },
+  processing: { label: 'Processing', className: 'bg-blue-100 text-blue-800' },
+  clustering: { label: 'Clustering', className: 'bg-blue-100 text-blue-800' },
+  awaiting_clustering: { label: 'Awaiting clustering', className: 'bg-yellow-100 text-yellow-800' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500' }
+};
+
+const isAcceptedFile = (file: File) =>
+  [...IMAGE_CONFIG.acceptedExtensions, ...Object.values(IMAGE_CONFIG.acceptedDocuments).flat()]
+    .some(extension => file.name.toLowerCase().endsWith(extension));
+
+// Files that have not produced a result yet; starting the batch (re)runs them
+const isPending = (item: BatchItem) => ['queued', 'failed', 'cancelled'].includes(item.state);
+
+// What a file looks like before its saga starts
+const QUEUED_ITEM: Omit<BatchItem, 'id' | 'file_name' | 'raster_dpi'> = {
+  state: 'queued',
+  saga_id: null,
+  saga_status: null,
+  bed_count: null,
+  clustered_beds: null,
+  source_dpi: null,
+  review_reasons: [],
+  error: null
+};
+
+const createBatchItem = (file: File, index: number, rasterDpi: number | null = null): BatchItem => ({
+  id: `batch_${Date.now()}_${index}`,
+  file_name: file.webkitRelativePath || file.name,
+  raster_dpi: rasterDpi,
+  ...QUEUED_ITEM
+});
+
+export default function BatchProcessor({ pages, onPagesQueued }: BatchProcessorProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  // PDFs and TIFFs waiting for their pages to be picked, one picker at a time
+  const [documents, setDocuments] = useState<File[]>([]);
+  // Names of files from the last drop that could not be read
+  const [unreadable, setUnreadable] = useState<string[]>([]);
+  const [method, setMethod] = useState('original');
+  const [templates, setTemplates] = useState<ClusteringTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!clusteringTemplateService.isAvailable()) return;
+    clusteringTemplateService.listTemplates()
+      .then(setTemplates)
+      .catch(err => console.warn('Failed to load clustering templates:', err));
+
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  // Templates only carry over to sketches processed with the method they were drawn in
+  const usableTemplates = templates.filter(template => template.enhancement_method === method);
+  const template = usableTemplates.find(t => t.id === templateId) || null;
+
+  // Only touches state setters, so it is stable for the pages effect below
+  const queueFiles = useCallback((added: { file: File; dpi: number | null }[]) => {
+    if (added.length === 0) return;
+    setFiles(current => [...current, ...added.map(({ file }) => file)]);
+    setItems(current => [
+      ...current,
+      ...added.map(({ file, dpi }, i) => createBatchItem(file, current.length + i, dpi))
+    ]);
+  }, []);
+
+  const addFiles = async (added: File[]) => {
+    const accepted = added.filter(isAcceptedFile);
+    // One unreadable file should not take the rest of the drop with it
+    const results = await Promise.allSettled(accepted.map(file => documentRasterService.detect(file)));
+    const failed = accepted.filter((file, i) => {
+      const result = results[i];
+      if (result.status === 'fulfilled') return false;
+      console.error(`Reading ${file.name} failed:`, result.reason);
+      return true;
+    });
+    const isDocument = (i: number) => {
+      const result = results[i];
+      return result.status === 'fulfilled' && !!result.value;
+    };
+
+    setUnreadable(failed.map(file => file.name));
+    queueFiles(accepted
+      .filter((_, i) => results[i].status === 'fulfilled' && !isDocument(i))
+      .map(file => ({ file, dpi: null })));
+    setDocuments(current => [...current, ...accepted.filter((_, i) => isDocument(i))]);
+  };
+
+  const queuePages = useCallback((picked: RasterisedPage[]) => {
+    queueFiles(picked.map(page => ({ file: page.file, dpi: page.dpi })));
+  }, [queueFiles]);
+
+  useEffect(() => {
+    if (pages.length === 0) return;
+    queuePages(pages);
+    onPagesQueued();
+  }, [pages, queuePages, onPagesQueued]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: addFiles,
+    accept: {
+      'image/*': IMAGE_CONFIG.acceptedExtensions,
+      ...IMAGE_CONFIG.acceptedDocuments
+    },
+    multiple: true,
+    disabled: isRunning
+  });
+
+  const updateItem = (updated: BatchItem) => {
+    setItems(current => current.map(item => (item.id === updated.id ? updated : item)));
+  };
+
+  const start = async () => {
+    const pending = items
+      .map((item, index) => ({ item, file: files[index] }))
+      .filter(({ item }) => isPending(item));
+    if (pending.length === 0) return;
+
+    const reset = pending.map(({ item }) => ({ ...item, ...QUEUED_ITEM }));
+    reset.forEach(updateItem);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+
+    try {
+      await batchService.run(
+        reset,
+        pending.map(({ file }) => file),
+        { enhancementMethod: method, template, concurrency },
+        updateItem,
+        controller.signal
+      );
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+      setIsRunning(false);
+    }
+  };
+
+  const cancel = () => controllerRef.current?.abort();
+
+  const clear = () => {
+    setFiles([]);
+    setItems([]);
+  };
+
+  const counts = items.reduce<Partial<Record<BatchItemState, number>>>((acc, item) => {
+    acc[item.state] = (acc[item.state] || 0) + 1;
+    return acc;
+  }, {});
+  const needsReview = items.filter(item => item.review_reasons.length > 0).length;
+  const canStart = !isRunning && items.some(isPending);
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div
+          {...getRootProps()}
+          className={`
+            border-2 border-dashed rounded-lg p-8 text-center transition-colors
+            ${isRunning ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}
+            ${isDragActive ? 'border-blue-400 bg-blue-50' : 'border-gray-300 hover:border-gray-400'}
+          `}
+        >
+          <input {...getInputProps()} />
+          <p className="text-lg font-medium text-gray-900">Drop sketches or a folder here</p>
+          <p className="text-sm text-gray-600 mt-1">or click to select several images</p>
+          <p className="text-xs text-gray-500 mt-2">
+            Supported formats: JPEG, PNG, WebP, PDF, TIFF (max {formatBytes(IMAGE_CONFIG.maxInputBytes)} each).
+            Large photos are downscaled to {IMAGE_CONFIG.maxDimension} px before upload; document pages are
+            picked and rendered first.
+          </p>
+          <label
+            onClick={e => e.stopPropagation()}
+            className={`inline-block mt-4 px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 ${
+              isRunning ? '' : 'hover:bg-gray-100 cursor-pointer'
+            }`}
+          >
+            Select folder
+            <input
+              type="file"
+              multiple
+              disabled={isRunning}
+              // Not in React's input typings; lets the picker return a whole directory
+              ref={input => input?.setAttribute('webkitdirectory', '')}
+              onChange={e => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+          </label>
+          {unreadable.length > 0 && (
+            <p className="text-sm text-red-700 mt-3">
+              {unreadable.length === 1
+                ? `${unreadable[0]} could not be read and was not added.`
+                : `${unreadable.length} files could not be read and were not added: ${unreadable.join(', ')}`}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 space-y-3 text-sm">
+          <label className="block">
+            <span className="font-medium text-gray-700">Enhancement method</span>
+            <select
+              value={method}
+              onChange={e => {
+                setMethod(e.target.value);
+                setTemplateId('');
+              }}
+              disabled={isRunning}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg"
+            >
+              {ENHANCEMENT_METHODS.map(m => (
+                <option key={m.key} value={m.key}>{m.title}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="font-medium text-gray-700">Clustering template</span>
+            <select
+              value={templateId}
+              onChange={e => setTemplateId(e.target.value)}
+              disabled={isRunning}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg"
+            >
+              <option value="">None – stop before clustering</option>
+              {usableTemplates.map(t => (
+                <option key={t.id} value={t.id}>{t.name} ({t.polygons.length} polygons)</option>
+              ))}
+            </select>
+            {usableTemplates.length === 0 && (
+              <span className="block text-xs text-gray-500 mt-1">
+                No templates saved for this method. Save one from the clustering step.
+              </span>
+            )}
+          </label>
+
+          <label className="block">
+            <span className="font-medium text-gray-700">Sketches in parallel</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={concurrency}
+              onChange={e => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+              disabled={isRunning}
+              className="mt-1 w-24 px-2 py-1 border border-gray-300 rounded-lg"
+            />
+          </label>
+
+          <div className="flex space-x-2 pt-2">
+            {isRunning ? (
+              <button
+                onClick={cancel}
+                className="px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-100"
+              >
+                Cancel batch
+              </button>
+            ) : (
+              <button
+                onClick={start}
+                disabled={!canStart}
+                className="px-4 py-2 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300"
+              >
+                Start batch
+              </button>
+            )}
+            <button
+              onClick={clear}
+              disabled={isRunning || items.length === 0}
+              className="px-4 py-2 border border-gray-300 rounded-lg font-medium text-gray-700 hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-transparent"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {documents.length > 0 && (
+        <DocumentPagePicker
+          key={`${documents[0].name}:${documents[0].size}:${documents[0].lastModified}`}
+          file={documents[0]}
+          multiple
+          onConfirm={picked => {
+            queuePages(picked);
+            setDocuments(current => current.slice(1));
+          }}
+          onCancel={() => setDocuments(current => current.slice(1))}
+        />
+      )}
+
+      {items.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4">
+          <div className="flex flex-wrap gap-2 mb-3 text-xs">
+            <span className="text-gray-700 font-medium">{items.length} file{items.length === 1 ? '' : 's'}</span>
+            {(Object.keys(counts) as BatchItemState[]).map(state => (
+              <span key={state} className={`px-2 py-0.5 rounded ${STATE_STYLES[state].className}`}>
+                {STATE_STYLES[state].label}: {counts[state]}
+              </span>
+            ))}
+            {needsReview > 0 && (
+              <span className="px-2 py-0.5 rounded bg-yellow-100 text-yellow-800">Needs review: {needsReview}</span>
+            )}
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">File</th>
+                <th className="py-2 font-medium">State</th>
+                <th className="py-2 font-medium">Saga status</th>
+                <th className="py-2 font-medium">Beds</th>
+                <th className="py-2 font-medium">Notes</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => (
+                <tr key={item.id} className="border-b border-gray-100 align-top">
+                  <td className="py-2 pr-2 break-all">
+                    {item.file_name}
+                    {item.saga_id && <span className="block text-xs text-gray-500 font-mono">{item.saga_id}</span>}
+                  </td>
+                  <td className="py-2 pr-2">
+                    <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${STATE_STYLES[item.state].className}`}>
+                      {STATE_STYLES[item.state].label}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-2 text-xs text-gray-600">{item.saga_status || '–'}</td>
+                  <td className="py-2 pr-2 whitespace-nowrap">
+                    {item.bed_count === null
+                      ? '–'
+                      : item.clustered_beds === null
+                        ? item.bed_count
+                        : `${item.clustered_beds} / ${item.bed_count}`}
+                  </td>
+                  <td className="py-2 pr-2 text-xs">
+                    {item.error && <p className="text-red-700">{item.error}</p>}
+                    {item.review_reasons.map(reason => (
+                      <p key={reason} className="text-yellow-800">⚠ {reason}</p>
+                    ))}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap space-x-2">
+                    {item.state === 'completed' && item.saga_id && (
+                      <a
+                        href={`${API_CONFIG.workflow.baseUrl}/${item.saga_id}/download`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        DXF
+                      </a>
+                    )}
+                    {item.saga_id && ['awaiting_clustering', 'completed'].includes(item.state) && (
+                      <a
+                        href={`?saga=${encodeURIComponent(item.saga_id)}`}
+                        // The opened tab reads the page resolution from the stored session
+                        onClick={() => item.source_dpi !== null && sessionService.saveSourceDpi(item.saga_id!, item.source_dpi)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Open
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
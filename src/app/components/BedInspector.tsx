@@ -0,0 +1,122 @@
+// SketchToCad-Frontend/src/app/components/BedInspector.tsx
+"use client";
+
+import { BedData } from '../types/bed/BedData';
+import { AreaUnit, ScaleCalibration } from '../types/measurement/ScaleCalibration';
+import { rgbToHex } from '@/utils/color.utils';
+import { formatArea } from '@/utils/measurement.utils';
+
+interface BedInspectorProps {
+  bed: BedData;
+  // Coordinates of this bed under every enhancement method
+  enhancedCoordinates: Record<string, number[]>;
+  clusterIds: number[];
+  clusterColor: (clusterId: number) => string;
+  clusterName: (clusterId: number) => string;
+  scaleCalibration: ScaleCalibration | null;
+  areaUnit: AreaUnit;
+  isExcluded: boolean;
+  isPinned: boolean;
+  onToggleExclude: () => void;
+  onClose: () => void;
+}
+
+const formatMethod = (method: string) => {
+  const words = method.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValues = (values: number[]) =>
+  values.map(value => Number.isInteger(value) ? value.toString() : value.toFixed(2)).join(', ');
+
+export default function BedInspector({
+  bed,
+  enhancedCoordinates,
+  clusterIds,
+  clusterColor,
+  clusterName,
+  scaleCalibration,
+  areaUnit,
+  isExcluded,
+  isPinned,
+  onToggleExclude,
+  onClose
+}: BedInspectorProps) {
+  return (
+    <div className={`w-64 bg-white border rounded-lg shadow-lg p-3 text-sm ${
+      isPinned ? 'border-blue-400' : 'border-gray-200 pointer-events-none'
+    }`}>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold">Bed {bed.bed_id}</h4>
+        {isPinned ? (
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800" title="Unpin">
+            ✕
+          </button>
+        ) : (
+          <span className="text-xs text-gray-400">Click to pin</span>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+        <dt className="text-gray-500">Area</dt>
+        <dd>{formatArea(bed.area, scaleCalibration, areaUnit)}</dd>
+        <dt className="text-gray-500">Clean pixels</dt>
+        <dd>{bed.clean_pixel_count.toLocaleString()}</dd>
+        <dt className="text-gray-500">RGB median</dt>
+        <dd className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded border border-gray-300" style={{ backgroundColor: rgbToHex(bed.rgb_median) }}></span>
+          <span>{formatValues(bed.rgb_median)}</span>
+        </dd>
+        <dt className="text-gray-500">RGB mean</dt>
+        <dd className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded border border-gray-300" style={{ backgroundColor: rgbToHex(bed.rgb_mean) }}></span>
+          <span>{formatValues(bed.rgb_mean)}</span>
+        </dd>
+      </dl>
+
+      {Object.keys(enhancedCoordinates).length > 0 && (
+        <div className="mt-2 pt-2 border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-600 mb-1">Enhanced coordinates</p>
+          <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5 text-xs">
+            {Object.entries(enhancedCoordinates).map(([method, values]) => (
+              <div key={method} className="contents">
+                <dt className="text-gray-500">{formatMethod(method)}</dt>
+                <dd>{formatValues(values)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      <div className="mt-2 pt-2 border-t border-gray-100 text-xs">
+        {isExcluded ? (
+          <p className="text-gray-500">Excluded from clustering</p>
+        ) : clusterIds.length === 0 ? (
+          <p className="text-gray-500">Not in any cluster</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {clusterIds.map(clusterId => (
+              <span key={clusterId} className="flex items-center space-x-1 px-2 py-0.5 rounded bg-gray-100">
+                <span className="w-2 h-2 rounded" style={{ backgroundColor: clusterColor(clusterId) }}></span>
+                <span>{clusterName(clusterId)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {isPinned && (
+        <button
+          onClick={onToggleExclude}
+          className={`w-full mt-3 px-3 py-1 rounded-lg text-sm font-medium ${
+            isExcluded
+              ? 'border border-gray-300 hover:bg-gray-50'
+              : 'border border-red-300 text-red-700 hover:bg-red-50'
+          }`}
+        >
+          {isExcluded ? 'Include in Clustering' : 'Exclude as Outlier'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+// SketchToCad-Frontend/src/app/components/BedOverlay.tsx
+"use client";
+
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { KonvaEventObject } from 'konva/lib/Node';
+import { Stage, Layer, Image as KonvaImage, Line, Circle, Rect } from 'react-konva';
+import { BedData } from '../types/bed/BedData';
+import { Point } from '../types/geometry/Point';
+
+type PointerPhase = 'down' | 'move' | 'up';
+
+interface BedOverlayProps {
+  imageUrl?: string | null;
+  bedData: BedData[];
+  imageShape: number[];
+  bedColors: string[];
+  highlightedIndex: number | null;
+  onHoverBed: (index: number | null) => void;
+  maxWidth?: number;
+  maxHeight?: number;
+  // Optional interaction hooks used by the manual clustering mode
+  fillColors?: (string | null)[];
+  selectedIndices?: Set<number>;
+  onBedClick?: (index: number, shiftKey: boolean) => void;
+  onStagePointer?: (phase: PointerPhase, point: Point, shiftKey: boolean) => void;
+  renderOverlay?: (scale: number) => ReactNode;
+}
+
+export default function BedOverlay({
+  imageUrl,
+  bedData,
+  imageShape,
+  bedColors,
+  highlightedIndex,
+  onHoverBed,
+  maxWidth = 800,
+  maxHeight = 600,
+  fillColors,
+  selectedIndices,
+  onBedClick,
+  onStagePointer,
+  renderOverlay
+}: BedOverlayProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    if (!imageUrl) {
+      setImage(null);
+      return;
+    }
+
+    const img = new window.Image();
+    img.onload = () => setImage(img);
+    img.onerror = () => setImage(null);
+    img.src = imageUrl;
+
+    return () => {
+      img.onload = null;
+      img.onerror = null;
+    };
+  }, [imageUrl]);
+
+  // image_shape is numpy-style [height, width, channels]; fall back to the image itself
+  const imageSize = useMemo(() => {
+    if (imageShape.length >= 2 && imageShape[0] > 0 && imageShape[1] > 0) {
+      return { width: imageShape[1], height: imageShape[0] };
+    }
+    if (image) {
+      return { width: image.naturalWidth, height: image.naturalHeight };
+    }
+    return { width: maxWidth, height: maxHeight };
+  }, [imageShape, image, maxWidth, maxHeight]);
+
+  const scale = Math.min(maxWidth / imageSize.width, maxHeight / imageSize.height);
+  const stageWidth = Math.round(imageSize.width * scale);
+  const stageHeight = Math.round(imageSize.height * scale);
+
+  const hasOutlines = bedData.some(bed => (bed.polygons?.length || 0) > 0 || bed.position);
+
+  // Reports pointer positions in image pixel space
+  const handlePointer = (phase: PointerPhase) => (e: KonvaEventObject<MouseEvent>) => {
+    if (!onStagePointer) return;
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    onStagePointer(phase, { x: pointer.x / scale, y: pointer.y / scale }, e.evt.shiftKey);
+  };
+
+  const renderBed = (bed: BedData, index: number) => {
+    const isHighlighted = highlightedIndex === index;
+    const isSelected = selectedIndices?.has(index) ?? false;
+    const color = fillColors?.[index] || bedColors[index] || '#000000';
+    const stroke = isHighlighted ? '#FFFFFF' : isSelected ? '#2563EB' : color;
+    const handlers = {
+      onMouseEnter: () => onHoverBed(index),
+      onMouseLeave: () => onHoverBed(null),
+      onClick: (e: KonvaEventObject<MouseEvent>) => onBedClick?.(index, e.evt.shiftKey)
+    };
+
+    if (bed.polygons && bed.polygons.length > 0) {
+      return bed.polygons.map((ring, ringIndex) => (
+        <Line
+          key={`bed_${bed.bed_id}_${ringIndex}`}
+          points={ring.flatMap(([x, y]) => [x * scale, y * scale])}
+          closed={true}
+          stroke={stroke}
+          strokeWidth={isHighlighted || isSelected ? 4 : 2}
+          dash={isSelected && !isHighlighted ? [8, 4] : undefined}
+          fill={isHighlighted ? `${color}CC` : fillColors?.[index] ? `${color}99` : `${color}40`}
+          shadowColor="black"
+          shadowBlur={isHighlighted ? 8 : 0}
+          {...handlers}
+        />
+      ));
+    }
+
+    if (bed.position) {
+      return (
+        <Circle
+          key={`bed_${bed.bed_id}`}
+          x={bed.position.x * scale}
+          y={bed.position.y * scale}
+          radius={isHighlighted || isSelected ? 10 : 6}
+          fill={color}
+          stroke={isHighlighted || isSelected ? stroke : 'black'}
+          strokeWidth={isHighlighted || isSelected ? 3 : 1}
+          {...handlers}
+        />
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <div>
+      <div
+        className="border-2 border-gray-200 rounded-lg overflow-hidden bg-gray-50 inline-block"
+        onMouseLeave={() => onHoverBed(null)}
+      >
+        <Stage
+          width={stageWidth}
+          height={stageHeight}
+          onMouseDown={handlePointer('down')}
+          onMouseMove={handlePointer('move')}
+          onMouseUp={handlePointer('up')}
+        >
+          <Layer listening={false}>
+            {image ? (
+              <KonvaImage image={image} width={stageWidth} height={stageHeight} />
+            ) : (
+              <Rect width={stageWidth} height={stageHeight} fill="#F3F4F6" />
+            )}
+          </Layer>
+          <Layer>
+            {bedData.map((bed, index) => index === highlightedIndex ? null : renderBed(bed, index))}
+            {/* Draw the highlighted bed last so it sits above its neighbours */}
+            {highlightedIndex !== null && bedData[highlightedIndex] && renderBed(bedData[highlightedIndex], highlightedIndex)}
+          </Layer>
+          {renderOverlay && (
+            <Layer listening={false}>
+              {renderOverlay(scale)}
+            </Layer>
+          )}
+        </Stage>
+      </div>
+
+      {!image && (
+        <p className="text-xs text-gray-500 mt-2">
+          The uploaded sketch is not available in this session; bed outlines are shown without it.
+        </p>
+      )}
+      {!hasOutlines && (
+        <p className="text-xs text-gray-500 mt-2">
+          No bed outlines were returned for this image.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+// SketchToCad-Frontend/src/app/components/ClusterManager.tsx
+"use client";
+
+import { KeyboardEvent, useMemo, useState } from 'react';
+import { ClusterDefinition } from '../types/clustering/ClusterDefinition';
+import { PlantSpecies } from '../types/plants/PlantSpecies';
+import { toLayerName } from '@/utils/cluster.utils';
+import { rankPlantsByColor } from '@/utils/plant-library.utils';
+
+type ClusterChanges = Partial<Omit<ClusterDefinition, 'id'>>;
+
+interface ClusterManagerProps {
+  clusters: ClusterDefinition[];
+  currentClusterId: number;
+  // Polygons drawn and beds resolved into each cluster, with their area once the scale is known
+  usage: Record<number, { polygons: number; beds: number; area: string | null }>;
+  onSelect: (clusterId: number) => void;
+  onAdd: () => void;
+  onUpdate: (clusterId: number, changes: ClusterChanges) => void;
+  onRemove: (clusterId: number) => void;
+  plants: PlantSpecies[];
+  // Mean rgb_median of the current cluster's beds, for matching library colours
+  meanColor: number[] | null;
+  onPickPlant: (clusterId: number, plant: PlantSpecies) => void;
+  onOpenLibrary: () => void;
+}
+
+const MAX_PLANT_RESULTS = 6;
+// Colour differences above this are too far apart to call a match
+const SUGGESTION_MAX_DISTANCE = 25;
+
+// Fields commit on blur or Enter so typing a name is one undo step, not one per key
+const commitOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur();
+};
+
+export default function ClusterManager({
+  clusters,
+  currentClusterId,
+  usage,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onRemove,
+  plants,
+  meanColor,
+  onPickPlant,
+  onOpenLibrary
+}: ClusterManagerProps) {
+  const [plantQuery, setPlantQuery] = useState('');
+  const current = clusters.find(cluster => cluster.id === currentClusterId);
+
+  // Closest library colours first; a search narrows by name instead
+  const plantResults = useMemo(() => {
+    const query = plantQuery.trim().toLowerCase();
+    const matches = meanColor ? rankPlantsByColor(meanColor, plants) : plants.map(plant => ({ plant, distance: Infinity }));
+    return matches
+      .filter(({ plant }) => !query
+        || plant.name.toLowerCase().includes(query)
+        || plant.latin_name.toLowerCase().includes(query))
+      .slice(0, MAX_PLANT_RESULTS);
+  }, [plants, meanColor, plantQuery]);
+
+  const best = plantResults[0];
+  const suggested = !plantQuery.trim() && best && best.distance <= SUGGESTION_MAX_DISTANCE ? best.plant : null;
+
+  const commit = (changes: ClusterChanges) => {
+    if (!current) return;
+    const changed = (Object.keys(changes) as (keyof ClusterChanges)[])
+      .some(key => changes[key] !== current[key]);
+    if (changed) onUpdate(current.id, changes);
+  };
+
+  const parseDensity = (value: string): number | null => {
+    const density = parseFloat(value);
+    return Number.isFinite(density) && density > 0 ? density : null;
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold">Clusters</h4>
+        <button
+          onClick={onAdd}
+          className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700"
+        >
+          New Cluster
+        </button>
+      </div>
+
+      <ul className="text-sm space-y-1 max-h-48 overflow-y-auto mb-3">
+        {clusters.map(cluster => {
+          const { polygons = 0, beds = 0, area = null } = usage[cluster.id] || {};
+          return (
+            <li key={cluster.id}>
+              <button
+                onClick={() => onSelect(cluster.id)}
+                className={`w-full flex items-center space-x-2 px-2 py-1 rounded text-left ${
+                  cluster.id === currentClusterId ? 'bg-blue-100 text-blue-900' : 'hover:bg-white'
+                }`}
+              >
+                <span className="w-3 h-3 rounded flex-shrink-0" style={{ backgroundColor: cluster.color }}></span>
+                <span className="flex-1 truncate">
+                  {cluster.name}
+                  {cluster.species && <span className="text-gray-500"> · {cluster.species}</span>}
+                </span>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {polygons}p / {beds}b{area && ` · ${area}`}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {current && (
+        <div className="space-y-2 text-sm border-t border-gray-200 pt-3">
+          {/* Keys include the value so undo/redo refreshes the uncontrolled inputs */}
+          <label className="flex flex-col">
+            <span className="font-medium mb-1">Name</span>
+            <input
+              key={`name_${current.id}_${current.name}`}
+              defaultValue={current.name}
+              onBlur={e => commit({ name: e.target.value.trim() || current.name })}
+              onKeyDown={commitOnEnter}
+              className="px-2 py-1 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="font-medium mb-1">Species / cultivar</span>
+            <input
+              key={`species_${current.id}_${current.species}`}
+              defaultValue={current.species}
+              onBlur={e => commit({ species: e.target.value.trim() })}
+              onKeyDown={commitOnEnter}
+              placeholder="e.g. Lavandula angustifolia 'Hidcote'"
+              className="px-2 py-1 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col">
+              <span className="font-medium mb-1">Plants / m²</span>
+              <input
+                key={`density_${current.id}_${current.planting_density}`}
+                type="number"
+                min={0}
+                step="any"
+                defaultValue={current.planting_density ?? ''}
+                onBlur={e => commit({ planting_density: parseDensity(e.target.value) })}
+                onKeyDown={commitOnEnter}
+                className="px-2 py-1 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="flex flex-col">
+              <span className="font-medium mb-1">Colour</span>
+              <input
+                key={`color_${current.id}_${current.color}`}
+                type="color"
+                defaultValue={current.color.toLowerCase()}
+                onBlur={e => commit({ color: e.target.value.toUpperCase() })}
+                className="h-8 w-full border border-gray-300 rounded-lg bg-white"
+              />
+            </label>
+          </div>
+          <label className="flex flex-col">
+            <span className="font-medium mb-1">CAD layer</span>
+            <input
+              key={`layer_${current.id}_${current.layer_name}`}
+              defaultValue={current.layer_name}
+              onBlur={e => commit({ layer_name: toLayerName(e.target.value) || current.layer_name })}
+              onKeyDown={commitOnEnter}
+              className="px-2 py-1 border border-gray-300 rounded-lg font-mono"
+            />
+          </label>
+
+          <div className="border-t border-gray-200 pt-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium">From plant library</span>
+              <button onClick={onOpenLibrary} className="text-xs text-blue-600 hover:text-blue-800">
+                Manage library
+              </button>
+            </div>
+            {plants.length === 0 ? (
+              <p className="text-xs text-gray-500">No plants yet. Add presets in the library to reuse them here.</p>
+            ) : (
+              <>
+                <input
+                  value={plantQuery}
+                  onChange={e => setPlantQuery(e.target.value)}
+                  placeholder="Search plants"
+                  className="w-full px-2 py-1 mb-1 border border-gray-300 rounded-lg"
+                />
+                <ul className="space-y-1">
+                  {plantResults.map(({ plant, distance }) => (
+                    <li key={plant.id}>
+                      <button
+                        onClick={() => onPickPlant(current.id, plant)}
+                        className={`w-full flex items-center space-x-2 px-2 py-1 rounded text-left ${
+                          current.plant_id === plant.id ? 'bg-green-100' : 'hover:bg-white'
+                        }`}
+                      >
+                        <span className="w-3 h-3 rounded flex-shrink-0" style={{ backgroundColor: plant.color }}></span>
+                        <span className="flex-1 truncate">
+                          {plant.name}
+                          {plant.latin_name && <span className="text-gray-500 italic"> {plant.latin_name}</span>}
+                        </span>
+                        {plant === suggested ? (
+                          <span className="text-xs text-green-700 flex-shrink-0">Suggested</span>
+                        ) : Number.isFinite(distance) && (
+                          <span className="text-xs text-gray-400 flex-shrink-0" title="Colour difference (ΔE)">
+                            ΔE {Math.round(distance)}
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                  {plantResults.length === 0 && (
+                    <li className="text-xs text-gray-500 px-2">No plants match “{plantQuery}”.</li>
+                  )}
+                </ul>
+              </>
+            )}
+          </div>
+
+          <button
+            onClick={() => onRemove(current.id)}
+            disabled={clusters.length === 1 || !!usage[current.id]?.polygons || !!usage[current.id]?.beds}
+            title="Only empty clusters can be removed"
+            className="w-full px-3 py-1 rounded-lg text-sm font-medium border border-red-300 text-red-700 hover:bg-red-50 disabled:border-gray-200 disabled:text-gray-400 disabled:hover:bg-transparent"
+          >
+            Remove Cluster
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
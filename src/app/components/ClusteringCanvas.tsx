@@ -1,9 +1,62 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from 'react';
-import { Stage, Layer, Circle, Line } from 'react-konva';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Stage, Layer, Circle, Line, Shape } from 'react-konva';
+import { KonvaEventObject } from 'konva/lib/Node';
 import { Point } from '../types/geometry/Point';
 import { Polygon } from '../types/geometry/Polygon';
+import { BedData } from '../types/bed/BedData';
+import { ViewTransform } from '../types/geometry/ViewTransform';
+import { ClusterDefinition } from '../types/clustering/ClusterDefinition';
+import { PlantSpecies } from '../types/plants/PlantSpecies';
+import { ClusteringTemplate } from '../types/clustering/ClusteringTemplate';
+import { TemplatePreview } from '../types/clustering/TemplatePreview';
+import { AreaUnit, ScaleCalibration } from '../types/measurement/ScaleCalibration';
+import { rgbToHex, rgbToLab } from '@/utils/color.utils';
+import { NOISE_LABEL } from '@/utils/clustering.utils';
+import { queryNearest } from '@/utils/spatial-index.utils';
+import { polygonArea } from '@/utils/geometry.utils';
+import { formatArea } from '@/utils/measurement.utils';
+import { centroidOf, ConflictPolicy, findConflicts, resolveConflicts } from '@/utils/conflict.utils';
+import {
+  createClusterDefinition,
+  defaultClusterColor,
+  ensureClusterDefinitions,
+  nextClusterId
+} from '@/utils/cluster.utils';
+import {
+  Command,
+  composeCommands,
+  createHistory,
+  executeCommand,
+  recordCommand,
+  redo,
+  replacePresent,
+  undo
+} from '@/utils/history.utils';
+import { densityFromSpacing } from '@/utils/plant-library.utils';
+import { plantLibraryService } from '@/services/plant-library.service';
+import { clusteringTemplateService } from '@/services/clustering-template.service';
+import { toBedIdClusters } from '@/services/api.service';
+import { channelLabels, DEFAULT_PROJECTION_ID } from '@/utils/projection.utils';
+import {
+  buildProjectionSpace,
+  clusterMembersFromPolygons,
+  polygonMembership,
+  ProjectionCombineMode
+} from '@/utils/cluster-membership.utils';
+import { evaluateTemplate } from '@/utils/template.utils';
+import BedOverlay from './BedOverlay';
+import ManualClustering from './ManualClustering';
+import AutoClusterPanel from './AutoClusterPanel';
+import ColorSpace3D from './ColorSpace3D';
+import HistoryPanel from './HistoryPanel';
+import ClusterManager from './ClusterManager';
+import PlantLibrary from './PlantLibrary';
+import TemplatePanel from './TemplatePanel';
+import ScatterMinimap from './ScatterMinimap';
+import BedInspector from './BedInspector';
+import ConflictPanel from './ConflictPanel';
 
 // Updated interface to match the new props
 interface ClusteringCanvasProps {
@@ -13,102 +66,466 @@ interface ClusteringCanvasProps {
     xlabel: string;
     ylabel: string;
     original_colors: number[][];
+    full_enhanced_colors?: Record<string, number[][]>;
+    // bed_id of the bed at each plot_data index
+    bed_ids?: number[];
   };
-  onClustering: (clustersData: Record<string, number[]>) => void;
+  // Cluster id -> bed_ids of its beds, with the definitions of those clusters
+  onClustering: (clustersData: Record<string, number[]>, clusters: ClusterDefinition[]) => void;
   onBack: () => void;
+  bedData: BedData[];
+  imageShape: number[];
+  imageUrl?: string | null;
+  initialPolygons?: Polygon[];
+  // Called on every change of the document; keep them stable (useCallback) or every render saves again
+  onPolygonsChange?: (polygons: Polygon[]) => void;
+  initialClusters?: ClusterDefinition[];
+  onClustersChange?: (clusters: ClusterDefinition[]) => void;
+  // Beds assigned in sketch mode and outliers left out, by plot index
+  initialAssignments?: Record<number, number>;
+  onAssignmentsChange?: (assignments: Record<number, number>) => void;
+  initialExcluded?: number[];
+  onExcludedChange?: (excluded: number[]) => void;
+  // Areas are shown in pixels until the saga is calibrated
+  scaleCalibration?: ScaleCalibration | null;
+  areaUnit?: AreaUnit;
 }
 
-const CLUSTER_COLORS = [
-  '#FF3232', // Red
-  '#32FF32', // Green
-  '#3232FF', // Blue
-  '#FFFF32', // Yellow
-  '#FF32FF', // Magenta
-  '#32FFFF', // Cyan
-  '#FF9632', // Orange
-  '#9632FF', // Purple
-];
+type ClusteringMode = 'color' | 'image';
+
+// Colour space plotted by the 3-D view
+type ColorSpace = 'enhanced' | 'lab';
+
+// Everything covered by undo/redo. Beds assigned directly override polygon membership.
+interface ClusteringDocument {
+  polygons: Polygon[];
+  assignments: Record<number, number>;
+  // Outlier beds left out of every cluster
+  excluded: number[];
+  clusters: ClusterDefinition[];
+  // How polygon groups drawn in different projections combine
+  combineMode: ProjectionCombineMode;
+}
+
+const HISTORY_LIMIT = 100;
+
+const IDENTITY_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 40;
+const ZOOM_STEP = 1.2;
+
+const addPolygonCommand = (polygon: Polygon, label = 'Draw polygon'): Command<ClusteringDocument> => ({
+  label,
+  apply: doc => ({ ...doc, polygons: [...doc.polygons, polygon] }),
+  revert: doc => ({ ...doc, polygons: doc.polygons.filter(p => p.id !== polygon.id) })
+});
+
+const editPolygonCommand = (label: string, before: Polygon, after: Polygon): Command<ClusteringDocument> => ({
+  label,
+  apply: doc => ({ ...doc, polygons: doc.polygons.map(p => p.id === before.id ? after : p) }),
+  revert: doc => ({ ...doc, polygons: doc.polygons.map(p => p.id === after.id ? before : p) })
+});
+
+// Remembers where each polygon sat so undo restores the original drawing order
+const removePolygonsCommand = (label: string, polygons: Polygon[], removedIds: string[]): Command<ClusteringDocument> => {
+  const removed = polygons.flatMap((polygon, index) => removedIds.includes(polygon.id) ? [{ polygon, index }] : []);
+  return {
+    label,
+    apply: doc => ({ ...doc, polygons: doc.polygons.filter(p => !removedIds.includes(p.id)) }),
+    revert: doc => {
+      const restored = doc.polygons.slice();
+      removed.forEach(({ polygon, index }) => restored.splice(index, 0, polygon));
+      return { ...doc, polygons: restored };
+    }
+  };
+};
+
+const polygonsCommand = (label: string, before: Polygon[], after: Polygon[]): Command<ClusteringDocument> => ({
+  label,
+  apply: doc => ({ ...doc, polygons: after }),
+  revert: doc => ({ ...doc, polygons: before })
+});
+
+const excludedCommand = (label: string, before: number[], after: number[]): Command<ClusteringDocument> => ({
+  label,
+  apply: doc => ({ ...doc, excluded: after }),
+  revert: doc => ({ ...doc, excluded: before })
+});
+
+const combineModeCommand = (
+  label: string,
+  before: ProjectionCombineMode,
+  after: ProjectionCombineMode
+): Command<ClusteringDocument> => ({
+  label,
+  apply: doc => ({ ...doc, combineMode: after }),
+  revert: doc => ({ ...doc, combineMode: before })
+});
+
+const assignmentsCommand = (
+  label: string,
+  before: Record<number, number>,
+  after: Record<number, number>
+): Command<ClusteringDocument> => ({
+  label,
+  apply: doc => ({ ...doc, assignments: after }),
+  revert: doc => ({ ...doc, assignments: before })
+});
+
+const clustersCommand = (
+  label: string,
+  before: ClusterDefinition[],
+  after: ClusterDefinition[]
+): Command<ClusteringDocument> => ({
+  label,
+  apply: doc => ({ ...doc, clusters: after }),
+  revert: doc => ({ ...doc, clusters: before })
+});
+
+// Polygons keep their cluster's colour so the persisted session matches the canvas
+const withClusterColor = (polygons: Polygon[], cluster: ClusterDefinition) =>
+  polygons.map(p => p.cluster_id === cluster.id && p.color !== cluster.color ? { ...p, color: cluster.color } : p);
+
+const editClusterCommand = (
+  label: string,
+  before: ClusterDefinition,
+  after: ClusterDefinition
+): Command<ClusteringDocument> => ({
+  label,
+  apply: doc => ({
+    ...doc,
+    clusters: doc.clusters.map(c => c.id === before.id ? after : c),
+    polygons: withClusterColor(doc.polygons, after)
+  }),
+  revert: doc => ({
+    ...doc,
+    clusters: doc.clusters.map(c => c.id === after.id ? before : c),
+    polygons: withClusterColor(doc.polygons, before)
+  })
+});
 
 export default function ClusteringCanvas({ 
   enhancementSelection, 
   onClustering, 
-  onBack 
+  onBack,
+  bedData,
+  imageShape,
+  imageUrl,
+  initialPolygons = [],
+  onPolygonsChange,
+  initialClusters = [],
+  onClustersChange,
+  initialAssignments = {},
+  onAssignmentsChange,
+  initialExcluded = [],
+  onExcludedChange,
+  scaleCalibration = null,
+  areaUnit = 'm2'
 }: ClusteringCanvasProps) {
   const [currentPolygon, setCurrentPolygon] = useState<Point[]>([]);
-  const [completedPolygons, setCompletedPolygons] = useState<Polygon[]>([]);
-  const [currentCluster, setCurrentCluster] = useState(0);
+  const [history, setHistory] = useState(() =>
+    createHistory<ClusteringDocument>({
+      polygons: initialPolygons,
+      assignments: initialAssignments,
+      excluded: initialExcluded,
+      // Older sessions only have polygons; give their clusters default definitions
+      clusters: ensureClusterDefinitions(
+        initialClusters,
+        initialClusters.length > 0
+          ? [...initialPolygons.map(p => p.cluster_id), ...Object.values(initialAssignments)]
+          : [0, ...initialPolygons.map(p => p.cluster_id), ...Object.values(initialAssignments)]
+      ),
+      combineMode: 'intersection'
+    })
+  );
+  const completedPolygons = history.present.polygons;
+  const manualAssignments = history.present.assignments;
+  const excludedBeds = history.present.excluded;
+  const clusters = history.present.clusters;
+  const combineMode = history.present.combineMode;
+  // Clusters the last applied suggestion created; a new run replaces them instead of adding more
+  const [suggestedClusterIds, setSuggestedClusterIds] = useState<number[]>([]);
+  // Clicked bed whose inspector stays open while the pointer moves on
+  const [pinnedBedIndex, setPinnedBedIndex] = useState<number | null>(null);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('manual');
+  // Polygon as it was when the current drag started, recorded as one step on drop
+  const dragOriginRef = useRef<Polygon | null>(null);
+  const [currentCluster, setCurrentCluster] = useState(
+    initialPolygons.length > 0 ? Math.max(...initialPolygons.map(p => p.cluster_id)) : initialClusters[0]?.id ?? 0
+  );
   const [isDrawing, setIsDrawing] = useState(false);
   const [canvasSize] = useState({ width: 800, height: 600 });
-  const [plotData, setPlotData] = useState<{ x: number[], y: number[], colors: string[] } | null>(null);
+  const [projectionId, setProjectionId] = useState(DEFAULT_PROJECTION_ID);
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+  // Set while dragging empty canvas to pan; `moved` suppresses the click that ends the drag
+  const panRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [selectedPolygonId, setSelectedPolygonId] = useState<string | null>(null);
+  const [show3D, setShow3D] = useState(false);
+  const [colorSpace, setColorSpace] = useState<ColorSpace>('enhanced');
+  const [hoveredBedIndex, setHoveredBedIndex] = useState<number | null>(null);
+  const [mode, setMode] = useState<ClusteringMode>('color');
+  const [plants, setPlants] = useState<PlantSpecies[]>([]);
+  const [showPlantLibrary, setShowPlantLibrary] = useState(false);
+  const [templates, setTemplates] = useState<ClusteringTemplate[]>([]);
+  const [previewTemplateId, setPreviewTemplateId] = useState<string | null>(null);
   const stageRef = useRef<any>(null);
 
-  // Process the enhancement selection data
-  useEffect(() => {
-    if (!enhancementSelection) return;
+  // Every channel pair and principal component pair of the full colour data, each with
+  // a spatial index built once per dataset; the index also caches the data bounds
+  const projectionSpace = useMemo(
+    () => buildProjectionSpace(enhancementSelection.plot_data, enhancementSelection.method),
+    [enhancementSelection]
+  );
+  const { projections, indexes: projectionIndexes } = projectionSpace;
+
+  // Lab puts lightness on the vertical axis with the two chroma axes around it
+  const colorSpacePoints = useMemo(() => {
+    if (colorSpace === 'lab') {
+      return {
+        points: enhancementSelection.original_colors.map(color => {
+          const [l, a, b] = rgbToLab(color);
+          return [a, l, b];
+        }),
+        labels: ['a*', 'L*', 'b*']
+      };
+    }
+    const { plot_data, method } = enhancementSelection;
+    return { points: plot_data, labels: channelLabels(method, plot_data[0]?.length || 0) };
+  }, [enhancementSelection, colorSpace]);
+
+  const projection = projections.find(p => p.id === projectionId) || projections[0] || null;
+
+  // Process the enhancement selection data for the active projection
+  const plotData = useMemo(() => {
+    if (!projection) return null;
 
-    const { plot_data, original_colors } = enhancementSelection;
-    
-    // Extract X and Y coordinates from plot_data
-    const xCoords = plot_data.map(point => point[1]); // Assuming [Red, Green, Blue] or similar
-    const yCoords = plot_data.map(point => point[0]); // First dimension for Y-axis
-    
     // Convert RGB colors to hex strings
-    const hexColors = original_colors.map(color => 
-      `#${Math.round(color[0]).toString(16).padStart(2, '0')}${Math.round(color[1]).toString(16).padStart(2, '0')}${Math.round(color[2]).toString(16).padStart(2, '0')}`
-    );
+    const hexColors = enhancementSelection.original_colors.map(rgbToHex);
 
-    setPlotData({ x: xCoords, y: yCoords, colors: hexColors });
-  }, [enhancementSelection]);
+    return { x: projection.x, y: projection.y, colors: hexColors };
+  }, [projection, enhancementSelection]);
 
-  // Convert data coordinates to canvas coordinates
-  const dataToCanvas = useCallback((dataX: number, dataY: number): [number, number] => {
-    if (!plotData) return [0, 0];
+  const plotIndex = projection ? projectionIndexes.get(projection.id) || null : null;
+
+  // Keep the persisted session in sync with the drawn polygons
+  useEffect(() => {
+    onPolygonsChange?.(completedPolygons);
+  }, [completedPolygons, onPolygonsChange]);
+
+  useEffect(() => {
+    onClustersChange?.(clusters);
+  }, [clusters, onClustersChange]);
+
+  useEffect(() => {
+    onAssignmentsChange?.(manualAssignments);
+  }, [manualAssignments, onAssignmentsChange]);
+
+  useEffect(() => {
+    onExcludedChange?.(excludedBeds);
+  }, [excludedBeds, onExcludedChange]);
+
+  // The library is optional: without IndexedDB clusters are simply filled in by hand
+  useEffect(() => {
+    if (!plantLibraryService.isAvailable()) return;
+    plantLibraryService.listPlants()
+      .then(setPlants)
+      .catch(error => console.warn('Failed to load plant library:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!clusteringTemplateService.isAvailable()) return;
+    clusteringTemplateService.listTemplates()
+      .then(setTemplates)
+      .catch(error => console.warn('Failed to load clustering templates:', error));
+  }, []);
+
+  const clusterById = useMemo(() => new Map(clusters.map(cluster => [cluster.id, cluster])), [clusters]);
+
+  const clusterColor = useCallback(
+    (clusterId: number) => clusterById.get(clusterId)?.color || defaultClusterColor(clusterId),
+    [clusterById]
+  );
+
+  const clusterName = useCallback(
+    (clusterId: number) => clusterById.get(clusterId)?.name || `Cluster ${clusterId + 1}`,
+    [clusterById]
+  );
+
+  // Convert data coordinates to unzoomed canvas coordinates
+  const dataToBase = useCallback((dataX: number, dataY: number): [number, number] => {
+    if (!plotIndex) return [0, 0];
 
     const padding = 50;
     const plotWidth = canvasSize.width - 2 * padding;
     const plotHeight = canvasSize.height - 2 * padding;
 
-    const xMin = Math.min(...plotData.x);
-    const xMax = Math.max(...plotData.x);
-    const yMin = Math.min(...plotData.y);
-    const yMax = Math.max(...plotData.y);
+    const { minX: xMin, maxX: xMax, minY: yMin, maxY: yMax } = plotIndex.bounds;
 
     const canvasX = padding + ((dataX - xMin) / (xMax - xMin)) * plotWidth;
     const canvasY = canvasSize.height - padding - ((dataY - yMin) / (yMax - yMin)) * plotHeight;
 
     return [canvasX, canvasY];
-  }, [plotData, canvasSize]);
+  }, [plotIndex, canvasSize]);
 
-  // Convert canvas coordinates to data coordinates
-  const canvasToData = useCallback((canvasX: number, canvasY: number): [number, number] => {
-    if (!plotData) return [0, 0];
+  // Convert unzoomed canvas coordinates to data coordinates
+  const baseToData = useCallback((canvasX: number, canvasY: number): [number, number] => {
+    if (!plotIndex) return [0, 0];
 
     const padding = 50;
     const plotWidth = canvasSize.width - 2 * padding;
     const plotHeight = canvasSize.height - 2 * padding;
 
-    const xMin = Math.min(...plotData.x);
-    const xMax = Math.max(...plotData.x);
-    const yMin = Math.min(...plotData.y);
-    const yMax = Math.max(...plotData.y);
+    const { minX: xMin, maxX: xMax, minY: yMin, maxY: yMax } = plotIndex.bounds;
 
     const dataX = xMin + ((canvasX - padding) / plotWidth) * (xMax - xMin);
     const dataY = yMin + ((canvasSize.height - padding - canvasY) / plotHeight) * (yMax - yMin);
 
     return [dataX, dataY];
-  }, [plotData, canvasSize]);
+  }, [plotIndex, canvasSize]);
+
+  // Convert data coordinates to canvas coordinates, including zoom and pan
+  const dataToCanvas = useCallback((dataX: number, dataY: number): [number, number] => {
+    const [baseX, baseY] = dataToBase(dataX, dataY);
+    return [baseX * view.scale + view.x, baseY * view.scale + view.y];
+  }, [dataToBase, view]);
+
+  // Convert canvas coordinates to data coordinates, including zoom and pan
+  const canvasToData = useCallback((canvasX: number, canvasY: number): [number, number] => {
+    return baseToData((canvasX - view.x) / view.scale, (canvasY - view.y) / view.scale);
+  }, [baseToData, view]);
+
+  // Zooms by factor keeping the given canvas position fixed under the cursor
+  const zoomAt = (factor: number, anchorX: number, anchorY: number) => {
+    setView(prev => {
+      const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.scale * factor));
+      const ratio = scale / prev.scale;
+      return scale === MIN_ZOOM
+        ? IDENTITY_VIEW
+        : { scale, x: anchorX - (anchorX - prev.x) * ratio, y: anchorY - (anchorY - prev.y) * ratio };
+    });
+  };
+
+  // Fits the given unzoomed canvas rectangle into the stage with a margin
+  const zoomToBaseRect = (minX: number, minY: number, maxX: number, maxY: number) => {
+    const margin = 1.3;
+    const width = Math.max(maxX - minX, 1) * margin;
+    const height = Math.max(maxY - minY, 1) * margin;
+    const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, canvasSize.width / width, canvasSize.height / height));
+    setView({
+      scale,
+      x: canvasSize.width / 2 - ((minX + maxX) / 2) * scale,
+      y: canvasSize.height / 2 - ((minY + maxY) / 2) * scale
+    });
+  };
+
+  // Centres the view on an unzoomed canvas position, used by the minimap
+  const centerViewOn = (baseX: number, baseY: number) => {
+    setView(prev => ({
+      ...prev,
+      x: canvasSize.width / 2 - baseX * prev.scale,
+      y: canvasSize.height / 2 - baseY * prev.scale
+    }));
+  };
+
+  const handleWheel = (e: KonvaEventObject<WheelEvent>) => {
+    e.evt.preventDefault();
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    zoomAt(e.evt.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, pointer.x, pointer.y);
+  };
+
+  // Drag empty space to pan; while drawing, clicks place vertices so panning needs Alt or the middle button
+  const handlePanStart = (e: KonvaEventObject<MouseEvent>) => {
+    const onEmptySpace = e.target === e.target.getStage();
+    if (e.evt.button === 1 || (onEmptySpace && (!isDrawing || e.evt.altKey))) {
+      panRef.current = { x: e.evt.clientX, y: e.evt.clientY, moved: false };
+    }
+  };
+
+  // Points are drawn as one shape without per-point events, so hover is resolved through the index
+  const updateHover = (e: KonvaEventObject<MouseEvent>) => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer || !plotData || !plotIndex) return;
+
+    const hitRadius = pointRadius + 2;
+    const [dataX, dataY] = canvasToData(pointer.x, pointer.y);
+    const [edgeX, edgeY] = canvasToData(pointer.x + hitRadius, pointer.y - hitRadius);
+    const nearest = queryNearest(
+      plotIndex, plotData.x, plotData.y, dataX, dataY, Math.abs(edgeX - dataX), Math.abs(edgeY - dataY)
+    );
+    if (nearest !== hoveredBedIndex) setHoveredBedIndex(nearest);
+  };
+
+  const handlePanMove = (e: KonvaEventObject<MouseEvent>) => {
+    const pan = panRef.current;
+    if (!pan) {
+      updateHover(e);
+      return;
+    }
+
+    const dx = e.evt.clientX - pan.x;
+    const dy = e.evt.clientY - pan.y;
+    panRef.current = { x: e.evt.clientX, y: e.evt.clientY, moved: pan.moved || Math.abs(dx) + Math.abs(dy) > 2 };
+    setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const handlePanEnd = () => {
+    if (panRef.current?.moved) suppressClickRef.current = true;
+    panRef.current = null;
+  };
 
   const handleStageClick = useCallback((e: any) => {
-    if (!isDrawing) return;
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
 
     const stage = e.target.getStage();
+    if (!isDrawing) {
+      // Clicking a point pins its inspector, clicking empty space drops the selections
+      if (hoveredBedIndex !== null) {
+        setPinnedBedIndex(hoveredBedIndex);
+      } else if (e.target === stage) {
+        setSelectedPolygonId(null);
+        setPinnedBedIndex(null);
+      }
+      return;
+    }
+
     const pointer = stage.getPointerPosition();
     
     const [dataX, dataY] = canvasToData(pointer.x, pointer.y);
     setCurrentPolygon(prev => [...prev, { x: dataX, y: dataY }]);
-  }, [isDrawing, canvasToData]);
+  }, [isDrawing, canvasToData, hoveredBedIndex]);
+
+  const execute = (command: Command<ClusteringDocument>) => {
+    setHistory(prev => executeCommand(prev, command, HISTORY_LIMIT));
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving form fields their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        setHistory(prev => e.shiftKey ? redo(prev) : undo(prev));
+      } else if (key === 'y') {
+        e.preventDefault();
+        setHistory(prev => redo(prev));
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const startDrawing = () => {
+    setSelectedPolygonId(null);
     setIsDrawing(true);
     setCurrentPolygon([]);
   };
@@ -123,10 +540,11 @@ export default function ClusteringCanvas({
       id: `polygon_${Date.now()}`,
       points: currentPolygon,
       cluster_id: currentCluster,
-      color: CLUSTER_COLORS[currentCluster % CLUSTER_COLORS.length]
+      color: clusterColor(currentCluster),
+      projection: projection?.id
     };
 
-    setCompletedPolygons(prev => [...prev, newPolygon]);
+    execute(addPolygonCommand(newPolygon));
     setCurrentPolygon([]);
     setIsDrawing(false);
   };
@@ -137,87 +555,589 @@ export default function ClusteringCanvas({
   };
 
   const clearAllPolygons = () => {
-    setCompletedPolygons([]);
+    if (completedPolygons.length > 0) {
+      execute(removePolygonsCommand('Clear all polygons', completedPolygons, completedPolygons.map(p => p.id)));
+    }
+    setSelectedPolygonId(null);
     setCurrentPolygon([]);
     setIsDrawing(false);
   };
 
-  const nextCluster = () => {
-    setCurrentCluster(prev => (prev + 1) % CLUSTER_COLORS.length);
+  const selectedPolygon = completedPolygons.find(polygon => polygon.id === selectedPolygonId) || null;
+
+  const editPolygon = (polygonId: string, label: string, update: (polygon: Polygon) => Polygon) => {
+    const before = completedPolygons.find(polygon => polygon.id === polygonId);
+    if (!before) return;
+
+    const after = update(before);
+    if (after !== before) execute(editPolygonCommand(label, before, after));
+  };
+
+  // Live update while dragging; the whole gesture is recorded once in endPolygonDrag
+  const dragPolygon = (polygonId: string, update: (polygon: Polygon) => Polygon) => {
+    setHistory(prev => replacePresent(prev, {
+      ...prev.present,
+      polygons: prev.present.polygons.map(polygon => polygon.id === polygonId ? update(polygon) : polygon)
+    }));
+  };
+
+  const startPolygonDrag = (polygonId: string) => {
+    dragOriginRef.current = completedPolygons.find(polygon => polygon.id === polygonId) || null;
+  };
+
+  const endPolygonDrag = (polygonId: string, label: string) => {
+    const before = dragOriginRef.current;
+    dragOriginRef.current = null;
+    if (!before) return;
+
+    setHistory(prev => {
+      const after = prev.present.polygons.find(polygon => polygon.id === polygonId);
+      return after ? recordCommand(prev, editPolygonCommand(label, before, after), HISTORY_LIMIT) : prev;
+    });
+  };
+
+  const moveVertex = (polygonId: string, vertexIndex: number, e: KonvaEventObject<DragEvent>) => {
+    const [dataX, dataY] = canvasToData(e.target.x(), e.target.y());
+    dragPolygon(polygonId, polygon => ({
+      ...polygon,
+      points: polygon.points.map((point, i) => i === vertexIndex ? { x: dataX, y: dataY } : point)
+    }));
+  };
+
+  // Inserts a vertex halfway along the edge that starts at vertexIndex
+  const insertVertex = (polygonId: string, vertexIndex: number) => {
+    editPolygon(polygonId, 'Insert vertex', polygon => {
+      const start = polygon.points[vertexIndex];
+      const end = polygon.points[(vertexIndex + 1) % polygon.points.length];
+      const points = polygon.points.slice();
+      points.splice(vertexIndex + 1, 0, { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 });
+      return { ...polygon, points };
+    });
+  };
+
+  const deleteVertex = (polygonId: string, vertexIndex: number) => {
+    editPolygon(polygonId, 'Delete vertex', polygon => polygon.points.length <= 3
+      ? polygon
+      : { ...polygon, points: polygon.points.filter((_, i) => i !== vertexIndex) }
+    );
+  };
+
+  // Moves the whole shape live; the Konva node is reset so the data points stay the source of truth
+  const movePolygon = (polygonId: string, e: KonvaEventObject<DragEvent>) => {
+    const [originX, originY] = canvasToData(0, 0);
+    const [movedX, movedY] = canvasToData(e.target.x(), e.target.y());
+    e.target.position({ x: 0, y: 0 });
+    dragPolygon(polygonId, polygon => ({
+      ...polygon,
+      points: polygon.points.map(point => ({ x: point.x + movedX - originX, y: point.y + movedY - originY }))
+    }));
+  };
+
+  const duplicatePolygon = (polygon: Polygon) => {
+    if (!plotData) return;
+
+    // Offset the copy slightly so it does not hide the original
+    const bounds = plotIndex?.bounds;
+    const offsetX = bounds ? (bounds.maxX - bounds.minX) * 0.04 : 0;
+    const offsetY = bounds ? (bounds.maxY - bounds.minY) * 0.04 : 0;
+    const copy: Polygon = {
+      ...polygon,
+      id: `polygon_${Date.now()}`,
+      points: polygon.points.map(point => ({ x: point.x + offsetX, y: point.y - offsetY }))
+    };
+
+    execute(addPolygonCommand(copy, 'Duplicate polygon'));
+    setSelectedPolygonId(copy.id);
+  };
+
+  const reassignPolygon = (polygonId: string, clusterId: number) => {
+    editPolygon(polygonId, `Move polygon to ${clusterName(clusterId)}`, polygon => ({
+      ...polygon,
+      cluster_id: clusterId,
+      color: clusterColor(clusterId)
+    }));
+  };
+
+  const deletePolygon = (polygonId: string) => {
+    execute(removePolygonsCommand('Delete polygon', completedPolygons, [polygonId]));
+    setSelectedPolygonId(null);
+  };
+
+
+  const assignBeds = (bedIndices: number[], clusterId: number | null) => {
+    const next = { ...manualAssignments };
+    bedIndices.forEach(index => {
+      if (clusterId === null) {
+        delete next[index];
+      } else {
+        next[index] = clusterId;
+      }
+    });
+
+    const bedCount = `${bedIndices.length} bed${bedIndices.length === 1 ? '' : 's'}`;
+    execute(assignmentsCommand(
+      clusterId === null ? `Unassign ${bedCount}` : `Assign ${bedCount} to ${clusterName(clusterId)}`,
+      manualAssignments,
+      next
+    ));
+  };
+
+  /**
+   * Assigns every bed the suggestion labels; noise beds keep what they had. Clusters
+   * from the previous suggestion that no polygon uses are reused or dropped, and
+   * overwriting beds picked by hand is confirmed first.
+   */
+  const applySuggestion = (labels: number[]) => {
+    const polygonClusterIds = new Set(completedPolygons.map(polygon => polygon.cluster_id));
+    const replaceable = new Set(suggestedClusterIds.filter(clusterId => !polygonClusterIds.has(clusterId)));
+    const kept = Object.fromEntries(
+      Object.entries(manualAssignments).filter(([, clusterId]) => !replaceable.has(clusterId))
+    ) as Record<number, number>;
+    const keptClusters = clusters.filter(cluster => !replaceable.has(cluster.id));
+
+    // Suggested labels start at 0; shift them past every id still in use so named clusters keep their beds
+    const firstId = Math.max(
+      nextClusterId(keptClusters),
+      ...completedPolygons.map(polygon => polygon.cluster_id + 1),
+      ...Object.values(kept).map(clusterId => clusterId + 1)
+    );
+    const suggested: Record<number, number> = {};
+    labels.forEach((label, index) => {
+      if (label !== NOISE_LABEL) suggested[index] = firstId + label;
+    });
+    const suggestedIds = Array.from(new Set(Object.values(suggested))).sort((a, b) => a - b);
+    if (suggestedIds.length === 0) return;
+
+    const handPicked = Object.keys(suggested).filter(index => kept[Number(index)] !== undefined).length;
+    if (handPicked > 0 && !confirm(
+      `The suggestion reassigns ${handPicked} bed${handPicked === 1 ? '' : 's'} you assigned by hand. Continue?`
+    )) return;
+
+    // Definitions of reused ids stay, with any name or species given in the meantime
+    const nextClusters = ensureClusterDefinitions(
+      clusters.filter(cluster => !replaceable.has(cluster.id) || suggestedIds.includes(cluster.id)),
+      suggestedIds
+    );
+
+    execute(composeCommands('Apply cluster suggestion', [
+      clustersCommand('Update suggested clusters', clusters, nextClusters),
+      assignmentsCommand('Assign suggested beds', manualAssignments, { ...kept, ...suggested })
+    ]));
+    setSuggestedClusterIds(suggestedIds);
+    setCurrentCluster(suggestedIds[0]);
+  };
+
+  const switchProjection = (nextProjectionId: string) => {
+    setProjectionId(nextProjectionId);
+    setSelectedPolygonId(null);
+    setView(IDENTITY_VIEW);
+    // Points of an unfinished polygon only make sense in the axes they were placed in
+    setIsDrawing(false);
+    setCurrentPolygon([]);
+  };
+
+  const switchMode = (nextMode: ClusteringMode) => {
+    setMode(nextMode);
+    setSelectedPolygonId(null);
     setIsDrawing(false);
     setCurrentPolygon([]);
   };
 
-  // Point in polygon detection - same algorithm as your prototype
-  const pointInPolygon = (point: Point, polygon: Point[]): boolean => {
-    const x = point.x;
-    const y = point.y;
-    let inside = false;
+  const selectCluster = (clusterId: number) => {
+    setCurrentCluster(clusterId);
+    setIsDrawing(false);
+    setCurrentPolygon([]);
+  };
 
-    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-      const xi = polygon[i].x;
-      const yi = polygon[i].y;
-      const xj = polygon[j].x;
-      const yj = polygon[j].y;
+  const addCluster = () => {
+    const cluster = createClusterDefinition(nextClusterId(clusters));
+    execute(clustersCommand(`Add ${cluster.name}`, clusters, [...clusters, cluster]));
+    selectCluster(cluster.id);
+  };
 
-      if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
-        inside = !inside;
-      }
-    }
+  const updateCluster = (clusterId: number, changes: Partial<Omit<ClusterDefinition, 'id'>>) => {
+    const before = clusters.find(c => c.id === clusterId);
+    if (!before) return;
 
-    return inside;
+    const label = changes.name !== undefined && changes.name !== before.name
+      ? `Rename ${before.name} to ${changes.name}`
+      : `Edit ${before.name}`;
+    execute(editClusterCommand(label, before, { ...before, ...changes }));
   };
 
-  const processClustering = () => {
-    if (!plotData) return;
+  const applyPlant = (clusterId: number, plant: PlantSpecies) => {
+    const before = clusters.find(c => c.id === clusterId);
+    if (!before) return;
+
+    execute(editClusterCommand(`Use ${plant.name} for ${before.name}`, before, {
+      ...before,
+      name: plant.name,
+      species: plant.latin_name,
+      planting_density: densityFromSpacing(plant.spacing_m),
+      color: plant.color,
+      layer_name: plant.layer_name,
+      plant_id: plant.id
+    }));
+  };
+
+  // Only clusters nothing refers to can go, so removing one never changes membership
+  const removeCluster = (clusterId: number) => {
+    const cluster = clusters.find(c => c.id === clusterId);
+    const inUse = completedPolygons.some(p => p.cluster_id === clusterId)
+      || Object.values(manualAssignments).includes(clusterId);
+    if (!cluster || inUse || clusters.length === 1) return;
 
-    const clustersData: Record<string, number[]> = {};
+    const remaining = clusters.filter(c => c.id !== clusterId);
+    execute(clustersCommand(`Remove ${cluster.name}`, clusters, remaining));
+    if (currentCluster === clusterId) selectCluster(remaining[0].id);
+  };
+
+  // Beds inside each polygon, looked up through the index of the projection it was drawn in
+  const polygonMembers = useMemo(
+    () => polygonMembership(completedPolygons, projectionSpace),
+    [completedPolygons, projectionSpace]
+  );
 
+  // Bed indices per cluster. Polygons of a cluster drawn in the same projection are
+  // unioned; groups from different projections are combined according to combineMode.
+  // A bed may still be claimed by several clusters here; see clustersData.
+  const candidateClusters = useMemo(() => {
+    const result: Record<string, number[]> = {};
     // Initialize cluster arrays
-    completedPolygons.forEach(polygon => {
-      const clusterId = polygon.cluster_id.toString();
-      if (!clustersData[clusterId]) {
-        clustersData[clusterId] = [];
-      }
+    [
+      ...completedPolygons.map(polygon => polygon.cluster_id),
+      ...Object.values(manualAssignments)
+    ].forEach(id => {
+      result[id.toString()] = result[id.toString()] || [];
     });
 
-    // Check each bed point against each polygon
-    plotData.x.forEach((x, bedIndex) => {
-      const y = plotData.y[bedIndex];
-      const bedPoint = { x, y };
+    const polygonClusters = clusterMembersFromPolygons(completedPolygons, polygonMembers, projectionSpace, combineMode);
+    Object.entries(polygonClusters).forEach(([clusterId, members]) => {
+      members
+        // Beds picked on the sketch go to exactly the cluster they were assigned to
+        .filter(bedIndex => manualAssignments[bedIndex] === undefined)
+        .forEach(bedIndex => result[clusterId].push(bedIndex));
+    });
 
-      completedPolygons.forEach(polygon => {
-        if (pointInPolygon(bedPoint, polygon.points)) {
-          const clusterId = polygon.cluster_id.toString();
-          if (!clustersData[clusterId].includes(bedIndex)) {
-            clustersData[clusterId].push(bedIndex);
-          }
-        }
+    Object.entries(manualAssignments).forEach(([bedIndex, clusterId]) => {
+      result[clusterId.toString()].push(Number(bedIndex));
+    });
+
+    // Excluded outliers are dropped last so they override polygons and direct assignments alike
+    if (excludedBeds.length > 0) {
+      const excluded = new Set(excludedBeds);
+      Object.keys(result).forEach(clusterId => {
+        result[clusterId] = result[clusterId].filter(bedIndex => !excluded.has(bedIndex));
       });
+    }
+
+    return result;
+  }, [completedPolygons, manualAssignments, excludedBeds, projectionSpace, polygonMembers, combineMode]);
+
+  const conflicts = useMemo(() => findConflicts(candidateClusters), [candidateClusters]);
+  const conflictCount = Object.keys(conflicts).length;
+  const hasUnresolvedConflicts = conflictPolicy === 'manual' && conflictCount > 0;
+
+  // Clusters as submitted: every conflicting bed settled by the chosen policy.
+  // Under the manual policy conflicts stay in place and submission is blocked.
+  const clustersData = useMemo(() => {
+    if (conflictCount === 0 || conflictPolicy === 'manual') return candidateClusters;
+
+    // Normalise polygon areas by their projection's bounds so shapes from different axes compare fairly
+    const relativeArea = (polygon: Polygon) => {
+      const bounds = projectionIndexes.get(polygon.projection || DEFAULT_PROJECTION_ID)?.bounds;
+      const span = bounds ? (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY) : 1;
+      return polygonArea(polygon.points) / (span || 1);
+    };
+
+    const containing = (bedIndex: number, clusterId: number) =>
+      completedPolygons
+        .map((polygon, order) => ({ polygon, order }))
+        .filter(({ polygon }) => polygon.cluster_id === clusterId && polygonMembers.get(polygon.id)?.has(bedIndex));
+
+    if (conflictPolicy === 'nearest-centroid') {
+      const points = enhancementSelection.plot_data;
+      const centroids = Object.fromEntries(Object.entries(candidateClusters).map(([clusterId, bedIndices]) => {
+        // Centre each cluster on its uncontested beds where it has any
+        const uncontested = bedIndices.filter(bedIndex => !conflicts[bedIndex]);
+        return [clusterId, centroidOf(points, uncontested.length > 0 ? uncontested : bedIndices)];
+      }));
+
+      return resolveConflicts(candidateClusters, conflicts, (bedIndex, clusterId) => {
+        const centroid = centroids[clusterId.toString()];
+        return centroid
+          ? centroid.reduce((sum, value, d) => sum + (value - (points[bedIndex]?.[d] ?? 0)) ** 2, 0)
+          : Infinity;
+      });
+    }
+
+    return resolveConflicts(candidateClusters, conflicts, (bedIndex, clusterId) => {
+      const polygons = containing(bedIndex, clusterId);
+      if (polygons.length === 0) return Infinity;
+      return conflictPolicy === 'first-drawn'
+        ? Math.min(...polygons.map(({ order }) => order))
+        : Math.min(...polygons.map(({ polygon }) => relativeArea(polygon)));
+    });
+  }, [candidateClusters, conflicts, conflictCount, conflictPolicy, completedPolygons, polygonMembers, projectionIndexes, enhancementSelection]);
+
+  // First cluster each bed falls into, used to outline points in the scatter
+  const bedClusters = useMemo(() => {
+    const result: Record<number, number> = {};
+    Object.entries(clustersData).forEach(([clusterId, bedIndices]) => {
+      bedIndices.forEach(bedIndex => {
+        if (result[bedIndex] === undefined) result[bedIndex] = Number(clusterId);
+      });
+    });
+    return result;
+  }, [clustersData]);
+
+  const clusterUsage = useMemo(() => {
+    const result: Record<number, { polygons: number; beds: number; area: string | null }> = {};
+    clusters.forEach(cluster => {
+      const members = clustersData[cluster.id] || [];
+      result[cluster.id] = {
+        polygons: completedPolygons.filter(p => p.cluster_id === cluster.id).length,
+        beds: members.length,
+        area: scaleCalibration
+          ? formatArea(members.reduce((sum, index) => sum + (bedData[index]?.area || 0), 0), scaleCalibration, areaUnit)
+          : null
+      };
+    });
+    return result;
+  }, [clusters, completedPolygons, clustersData, bedData, scaleCalibration, areaUnit]);
+
+  // Mean rgb_median of the current cluster's beds, matched against library colours
+  const currentMeanColor = useMemo(() => {
+    const bedIndices = clustersData[currentCluster] || [];
+    const colors = bedIndices.map(i => bedData[i]?.rgb_median).filter(Boolean);
+    if (colors.length === 0) return null;
+    return [0, 1, 2].map(channel => colors.reduce((sum, color) => sum + (color[channel] || 0), 0) / colors.length);
+  }, [clustersData, currentCluster, bedData]);
+
+  // What the previewed template's polygons would capture on this sketch
+  const templatePreview = useMemo((): TemplatePreview | null => {
+    const template = templates.find(t => t.id === previewTemplateId);
+    if (!template) return null;
+
+    const evaluation = evaluateTemplate(template, projectionSpace);
+    const polygons = template.polygons.map(polygon => {
+      const cluster = template.clusters.find(c => c.id === polygon.cluster_id);
+      return {
+        id: polygon.id,
+        clusterName: cluster?.name || `Cluster ${polygon.cluster_id + 1}`,
+        color: polygon.color,
+        bedCount: evaluation.polygonBedCounts[polygon.id] || 0,
+        warning: evaluation.unavailablePolygons.includes(polygon.id)
+          ? 'Drawn in axes this sketch does not have'
+          : evaluation.principalAxisPolygons.includes(polygon.id)
+            ? 'Principal axes are recomputed for each sketch and may not line up'
+            : undefined
+      };
     });
 
-    onClustering(clustersData);
+    return { template, polygons, coveredBeds: evaluation.coveredBeds, totalBeds: plotData ? plotData.x.length : 0 };
+  }, [templates, previewTemplateId, projectionSpace, plotData]);
+
+  const saveTemplate = async (name: string) => {
+    const usedClusters = new Set(completedPolygons.map(p => p.cluster_id));
+    const template: ClusteringTemplate = {
+      id: `template_${Date.now()}`,
+      name,
+      enhancement_method: enhancementSelection.method,
+      polygons: completedPolygons,
+      clusters: clusters.filter(cluster => usedClusters.has(cluster.id)),
+      combine_mode: combineMode,
+      created_at: new Date().toISOString()
+    };
+
+    try {
+      await clusteringTemplateService.saveTemplate(template);
+      setTemplates(await clusteringTemplateService.listTemplates());
+    } catch (error) {
+      alert(`Could not save template: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    try {
+      await clusteringTemplateService.deleteTemplate(templateId);
+      if (previewTemplateId === templateId) setPreviewTemplateId(null);
+      setTemplates(await clusteringTemplateService.listTemplates());
+    } catch (error) {
+      alert(`Could not delete template: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // One undoable step; direct bed assignments stay and keep their clusters defined
+  const applyTemplate = () => {
+    const template = templatePreview?.template;
+    if (!template) return;
+
+    const stamp = Date.now();
+    const polygons = template.polygons.map((polygon, i) => ({ ...polygon, id: `polygon_${stamp}_${i}` }));
+    const templateClusters = ensureClusterDefinitions(template.clusters, Object.values(manualAssignments));
+
+    execute(composeCommands(`Apply template "${template.name}"`, [
+      clustersCommand('Replace clusters', clusters, templateClusters),
+      polygonsCommand('Replace polygons', completedPolygons, polygons),
+      combineModeCommand('Set combine mode', combineMode, template.combine_mode)
+    ]));
+    setSelectedPolygonId(null);
+    setPreviewTemplateId(null);
+    selectCluster(templateClusters[0]?.id ?? 0);
+  };
+
+  const toggleExcluded = (bedIndex: number) => {
+    const bedId = bedData[bedIndex]?.bed_id ?? bedIndex;
+    const isExcluded = excludedBeds.includes(bedIndex);
+    execute(excludedCommand(
+      isExcluded ? `Include bed ${bedId}` : `Exclude bed ${bedId}`,
+      excludedBeds,
+      isExcluded ? excludedBeds.filter(index => index !== bedIndex) : [...excludedBeds, bedIndex]
+    ));
   };
 
+  // Hover shows a passing inspector; a pinned bed keeps it until closed
+  const inspectedBedIndex = pinnedBedIndex ?? hoveredBedIndex;
+  const inspectedBed = inspectedBedIndex !== null ? bedData[inspectedBedIndex] || null : null;
+
+  const renderInspector = () => {
+    if (!inspectedBed || inspectedBedIndex === null || !plotData) return null;
+
+    const enhancedColors = enhancementSelection.full_enhanced_colors || { [enhancementSelection.method]: enhancementSelection.plot_data };
+    const enhancedCoordinates = Object.fromEntries(
+      Object.entries(enhancedColors).flatMap(([method, rows]) => rows[inspectedBedIndex] ? [[method, rows[inspectedBedIndex]]] : [])
+    );
+
+    // Next to the point, flipped towards the middle near the stage edges
+    const [pointX, pointY] = dataToCanvas(plotData.x[inspectedBedIndex], plotData.y[inspectedBedIndex]);
+    const left = pointX > canvasSize.width - 290 ? Math.max(0, pointX - 272) : pointX + 16;
+    const top = Math.max(8, Math.min(canvasSize.height - 320, pointY - 24));
+
+    return (
+      <div className="absolute z-10" style={{ left, top }}>
+        <BedInspector
+          bed={inspectedBed}
+          enhancedCoordinates={enhancedCoordinates}
+          clusterIds={Object.entries(candidateClusters)
+            .filter(([, bedIndices]) => bedIndices.includes(inspectedBedIndex))
+            .map(([clusterId]) => Number(clusterId))}
+          clusterColor={clusterColor}
+          clusterName={clusterName}
+          scaleCalibration={scaleCalibration}
+          areaUnit={areaUnit}
+          isExcluded={excludedBeds.includes(inspectedBedIndex)}
+          isPinned={pinnedBedIndex === inspectedBedIndex}
+          onToggleExclude={() => toggleExcluded(inspectedBedIndex)}
+          onClose={() => setPinnedBedIndex(null)}
+        />
+      </div>
+    );
+  };
+
+  const processClustering = () => {
+    if (!plotData || hasUnresolvedConflicts) return;
+
+    // The canvas works on plot indices; the backend only knows bed_ids
+    const bedIds = enhancementSelection.bed_ids || bedData.map(bed => bed.bed_id);
+    let payload: Record<string, number[]>;
+    try {
+      payload = toBedIdClusters(clustersData, bedIds);
+    } catch (error) {
+      alert(`Could not submit clusters: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    onClustering(payload, clusters.filter(cluster => payload[cluster.id] !== undefined));
+  };
+
+  // Unzoomed positions of every bed, for the minimap
+  const basePoints = useMemo(() => {
+    if (!plotData) return { xs: [], ys: [] };
+    const positions = plotData.x.map((x, index) => dataToBase(x, plotData.y[index]));
+    return { xs: positions.map(([x]) => x), ys: positions.map(([, y]) => y) };
+  }, [plotData, dataToBase]);
+
+  // Points grow with zoom, but slower than the spacing between them so dense clouds open up
+  const pointRadius = Math.min(9, Math.max(2.5, 4 * Math.sqrt(view.scale)));
+
+  const zoomToSelection = () => {
+    const points = selectedPolygon?.points || currentPolygon;
+    if (points.length === 0) return;
+
+    const corners = points.map(point => dataToBase(point.x, point.y));
+    zoomToBaseRect(
+      Math.min(...corners.map(([x]) => x)),
+      Math.min(...corners.map(([, y]) => y)),
+      Math.max(...corners.map(([x]) => x)),
+      Math.max(...corners.map(([, y]) => y))
+    );
+  };
+
+  // All beds in a single shape: one Konva node instead of one per bed, skipping points outside the stage
   const renderDataPoints = () => {
     if (!plotData) return null;
 
-    return plotData.x.map((x, index) => {
-      const y = plotData.y[index];
-      const [canvasX, canvasY] = dataToCanvas(x, y);
-      
-      return (
-        <Circle
-          key={`point_${index}`}
-          x={canvasX}
-          y={canvasY}
-          radius={6}
-          fill={plotData.colors[index]}
-          stroke="black"
-          strokeWidth={1}
+    const hoveredPoint = hoveredBedIndex !== null && hoveredBedIndex < plotData.x.length
+      ? dataToCanvas(plotData.x[hoveredBedIndex], plotData.y[hoveredBedIndex])
+      : null;
+
+    return (
+      <>
+        <Shape
+          listening={false}
+          perfectDrawEnabled={false}
+          sceneFunc={(context) => {
+            const margin = pointRadius + 3;
+            const excluded = new Set(excludedBeds);
+            for (let index = 0; index < plotData.x.length; index++) {
+              const [canvasX, canvasY] = dataToCanvas(plotData.x[index], plotData.y[index]);
+              if (canvasX < -margin || canvasY < -margin ||
+                  canvasX > canvasSize.width + margin || canvasY > canvasSize.height + margin) continue;
+
+              const clusterId = bedClusters[index];
+              // Excluded outliers stay visible but faded so they can be brought back
+              context.globalAlpha = excluded.has(index) ? 0.25 : 1;
+              context.beginPath();
+              context.arc(canvasX, canvasY, pointRadius, 0, Math.PI * 2);
+              context.fillStyle = plotData.colors[index];
+              context.fill();
+              context.lineWidth = clusterId !== undefined ? 3 : 1;
+              context.strokeStyle = clusterId !== undefined ? clusterColor(clusterId) : 'black';
+              context.stroke();
+            }
+            context.globalAlpha = 1;
+
+            // Ring beds claimed by several clusters: red while unresolved, amber once a policy settles them
+            const conflictIndices = Object.keys(conflicts);
+            if (conflictIndices.length > 0) {
+              context.setLineDash([3, 2]);
+              context.lineWidth = 2;
+              context.strokeStyle = hasUnresolvedConflicts ? '#DC2626' : '#D97706';
+              conflictIndices.forEach(key => {
+                const index = Number(key);
+                const [canvasX, canvasY] = dataToCanvas(plotData.x[index], plotData.y[index]);
+                context.beginPath();
+                context.arc(canvasX, canvasY, pointRadius + 4, 0, Math.PI * 2);
+                context.stroke();
+              });
+              context.setLineDash([]);
+            }
+          }}
         />
-      );
-    });
+        {hoveredPoint && hoveredBedIndex !== null && (
+          <Circle
+            x={hoveredPoint[0]}
+            y={hoveredPoint[1]}
+            radius={pointRadius + 4}
+            fill={plotData.colors[hoveredBedIndex]}
+            stroke="#2563EB"
+            strokeWidth={3}
+            listening={false}
+          />
+        )}
+      </>
+    );
   };
 
   const renderPolygon = (polygon: Polygon, index: number) => {
@@ -226,18 +1146,99 @@ export default function ClusteringCanvas({
       return [x, y];
     });
 
+    const isSelected = polygon.id === selectedPolygonId;
+
     return (
       <Line
         key={`polygon_${index}`}
         points={screenPoints}
         stroke={polygon.color}
-        strokeWidth={3}
+        strokeWidth={isSelected ? 4 : 3}
+        dash={isSelected ? [10, 5] : undefined}
         closed={true}
-        fill={`${polygon.color}33`} // Semi-transparent fill
+        fill={`${polygon.color}${isSelected ? '55' : '33'}`} // Semi-transparent fill
+        listening={!isDrawing}
+        draggable={isSelected}
+        onClick={(e) => {
+          e.cancelBubble = true;
+          // A point under the cursor wins, so beds inside polygons can still be inspected
+          if (hoveredBedIndex !== null) {
+            setPinnedBedIndex(hoveredBedIndex);
+          } else {
+            setSelectedPolygonId(polygon.id);
+          }
+        }}
+        onDragStart={() => startPolygonDrag(polygon.id)}
+        onDragMove={(e) => movePolygon(polygon.id, e)}
+        onDragEnd={() => endPolygonDrag(polygon.id, 'Move polygon')}
       />
     );
   };
 
+  const renderTemplatePolygon = (polygon: Polygon, index: number) => (
+    <Line
+      key={`template_polygon_${index}`}
+      points={polygon.points.flatMap(point => dataToCanvas(point.x, point.y))}
+      stroke={polygon.color}
+      strokeWidth={2}
+      dash={[4, 4]}
+      closed={true}
+      fill={`${polygon.color}22`}
+      listening={false}
+    />
+  );
+
+  // Vertex handles plus edge midpoints of the selected polygon
+  const renderPolygonHandles = (polygon: Polygon) => {
+    const vertices = polygon.points.map(point => dataToCanvas(point.x, point.y));
+
+    return (
+      <>
+        {vertices.map(([x, y], i) => {
+          const [nextX, nextY] = vertices[(i + 1) % vertices.length];
+          return (
+            <Circle
+              key={`midpoint_${polygon.id}_${i}`}
+              x={(x + nextX) / 2}
+              y={(y + nextY) / 2}
+              radius={4}
+              fill="white"
+              stroke={polygon.color}
+              strokeWidth={1}
+              opacity={0.8}
+              onClick={(e) => {
+                e.cancelBubble = true;
+                insertVertex(polygon.id, i);
+              }}
+            />
+          );
+        })}
+        {vertices.map(([x, y], i) => (
+          <Circle
+            key={`vertex_${polygon.id}_${i}`}
+            x={x}
+            y={y}
+            radius={7}
+            fill={polygon.color}
+            stroke="white"
+            strokeWidth={2}
+            draggable={true}
+            onDragStart={() => startPolygonDrag(polygon.id)}
+            onDragMove={(e) => moveVertex(polygon.id, i, e)}
+            onDragEnd={() => endPolygonDrag(polygon.id, 'Move vertex')}
+            onClick={(e) => {
+              e.cancelBubble = true;
+            }}
+            onDblClick={(e) => {
+              e.cancelBubble = true;
+              deleteVertex(polygon.id, i);
+            }}
+          />
+        ))}
+      </>
+    );
+  };
+
   const renderCurrentPolygon = () => {
     if (currentPolygon.length === 0) return null;
 
@@ -250,7 +1251,7 @@ export default function ClusteringCanvas({
       <>
         <Line
           points={screenPoints}
-          stroke={CLUSTER_COLORS[currentCluster % CLUSTER_COLORS.length]}
+          stroke={clusterColor(currentCluster)}
           strokeWidth={3}
           dash={[5, 5]}
         />
@@ -262,7 +1263,7 @@ export default function ClusteringCanvas({
               x={x}
               y={y}
               radius={8}
-              fill={CLUSTER_COLORS[currentCluster % CLUSTER_COLORS.length]}
+              fill={clusterColor(currentCluster)}
               stroke="white"
               strokeWidth={2}
             />
@@ -272,6 +1273,8 @@ export default function ClusteringCanvas({
     );
   };
 
+  const hasClusters = completedPolygons.length > 0 || Object.keys(manualAssignments).length > 0;
+
   const getMethodTitle = () => {
     switch (enhancementSelection.method) {
       case 'enhanced_saturation': return 'Enhanced Saturation';
@@ -288,17 +1291,116 @@ export default function ClusteringCanvas({
         {/* Canvas */}
         <div className="flex-1">
           <div className="flex justify-between items-center mb-4">
-            <h2 className="text-2xl font-semibold">Color-Based Clustering</h2>
-            <div className="bg-blue-100 px-3 py-1 rounded-lg">
-              <span className="text-blue-800 font-medium">{getMethodTitle()}</span>
+            <h2 className="text-2xl font-semibold">
+              {mode === 'color' ? 'Color-Based Clustering' : 'Sketch-Based Clustering'}
+            </h2>
+            <div className="flex items-center space-x-3">
+              <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                <button
+                  onClick={() => switchMode('color')}
+                  className={`px-3 py-1 text-sm font-medium ${
+                    mode === 'color' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  Color Space
+                </button>
+                <button
+                  onClick={() => switchMode('image')}
+                  className={`px-3 py-1 text-sm font-medium ${
+                    mode === 'image' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  On Sketch
+                </button>
+              </div>
+              <div className="bg-blue-100 px-3 py-1 rounded-lg">
+                <span className="text-blue-800 font-medium">{getMethodTitle()}</span>
+              </div>
             </div>
           </div>
-          
-          <div className="border-2 border-gray-200 rounded-lg overflow-hidden bg-gray-50">
+
+          {/* Projection controls */}
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <label className="flex items-center space-x-2 text-sm">
+              <span className="text-gray-700 font-medium">Axes</span>
+              <select
+                value={projection?.id ?? ''}
+                onChange={e => switchProjection(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-lg"
+              >
+                {projections.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.label} ({completedPolygons.filter(p => (p.projection || DEFAULT_PROJECTION_ID) === option.id).length})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex items-center space-x-2 text-sm">
+              <span className="text-gray-700 font-medium">Combine projections</span>
+              <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                {(['intersection', 'union'] as ProjectionCombineMode[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => option !== combineMode && execute(combineModeCommand(
+                      `Combine projections by ${option}`, combineMode, option
+                    ))}
+                    className={`px-3 py-1 font-medium ${
+                      combineMode === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option === 'intersection' ? 'Intersection' : 'Union'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Zoom controls */}
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+            <button
+              onClick={() => zoomAt(ZOOM_STEP, canvasSize.width / 2, canvasSize.height / 2)}
+              className="px-3 py-1 rounded-lg font-medium border border-gray-300 hover:bg-gray-50"
+            >
+              +
+            </button>
+            <button
+              onClick={() => zoomAt(1 / ZOOM_STEP, canvasSize.width / 2, canvasSize.height / 2)}
+              className="px-3 py-1 rounded-lg font-medium border border-gray-300 hover:bg-gray-50"
+            >
+              −
+            </button>
+            <button
+              onClick={() => setView(IDENTITY_VIEW)}
+              className="px-3 py-1 rounded-lg font-medium border border-gray-300 hover:bg-gray-50"
+            >
+              Zoom to Fit
+            </button>
+            <button
+              onClick={zoomToSelection}
+              disabled={!selectedPolygon && currentPolygon.length === 0}
+              className="px-3 py-1 rounded-lg font-medium border border-gray-300 hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-transparent"
+            >
+              Zoom to Selection
+            </button>
+            <span className="text-gray-600">{Math.round(view.scale * 100)}%</span>
+            <span className="text-xs text-gray-500">
+              Scroll to zoom, drag empty space to pan{isDrawing ? ' (hold Alt while drawing)' : ''}.
+            </span>
+          </div>
+
+          <div className="relative border-2 border-gray-200 rounded-lg overflow-hidden bg-gray-50">
             <Stage
               width={canvasSize.width}
               height={canvasSize.height}
               onClick={handleStageClick}
+              onWheel={handleWheel}
+              onMouseDown={handlePanStart}
+              onMouseMove={handlePanMove}
+              onMouseUp={handlePanEnd}
+              onMouseLeave={() => {
+                handlePanEnd();
+                setHoveredBedIndex(null);
+              }}
               ref={stageRef}
             >
               <Layer>
@@ -306,18 +1408,123 @@ export default function ClusteringCanvas({
                 {renderDataPoints()}
                 
                 {/* Render completed polygons */}
-                {completedPolygons.map((polygon, index) => renderPolygon(polygon, index))}
+                {completedPolygons.map((polygon, index) =>
+                  (polygon.projection || DEFAULT_PROJECTION_ID) === projection?.id ? renderPolygon(polygon, index) : null
+                )}
                 
+                {/* Template polygons being previewed, before they are applied */}
+                {templatePreview?.template.polygons.map((polygon, index) =>
+                  (polygon.projection || DEFAULT_PROJECTION_ID) === projection?.id ? renderTemplatePolygon(polygon, index) : null
+                )}
+
+                {/* Editing handles for the selected polygon */}
+                {selectedPolygon && (selectedPolygon.projection || DEFAULT_PROJECTION_ID) === projection?.id &&
+                  renderPolygonHandles(selectedPolygon)}
+
                 {/* Render current polygon being drawn */}
                 {renderCurrentPolygon()}
               </Layer>
             </Stage>
+            {renderInspector()}
+            {view.scale > 1 && plotData && (
+              <div className="absolute bottom-2 right-2">
+                <ScatterMinimap
+                  xs={basePoints.xs}
+                  ys={basePoints.ys}
+                  colors={plotData.colors}
+                  canvasWidth={canvasSize.width}
+                  canvasHeight={canvasSize.height}
+                  view={view}
+                  onNavigate={centerViewOn}
+                />
+              </div>
+            )}
           </div>
           
           {/* Axis labels */}
           <div className="flex justify-between items-center mt-2 px-12">
-            <span className="text-sm text-gray-600">{enhancementSelection.xlabel}</span>
-            <span className="text-sm text-gray-600 transform -rotate-90 origin-center">{enhancementSelection.ylabel}</span>
+            <span className="text-sm text-gray-600">{projection?.xLabel ?? enhancementSelection.xlabel}</span>
+            <span className="text-sm text-gray-600 transform -rotate-90 origin-center">{projection?.yLabel ?? enhancementSelection.ylabel}</span>
+          </div>
+
+          {/* Rotatable 3-D view of the colour data, sharing colours and hover with the 2-D plot */}
+          <div className="mt-6">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-lg font-semibold">3-D Color Space</h3>
+              <div className="flex items-center space-x-2">
+                {show3D && (
+                  <select
+                    value={colorSpace}
+                    onChange={e => setColorSpace(e.target.value as ColorSpace)}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                  >
+                    <option value="enhanced">{getMethodTitle()}</option>
+                    <option value="lab">CIE Lab</option>
+                  </select>
+                )}
+                <button
+                  onClick={() => setShow3D(prev => !prev)}
+                  className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-gray-50"
+                >
+                  {show3D ? 'Hide' : 'Show'}
+                </button>
+              </div>
+            </div>
+            {show3D && plotData && (
+              <ColorSpace3D
+                points={colorSpacePoints.points}
+                axisLabels={colorSpacePoints.labels}
+                colors={plotData.colors}
+                bedClusters={bedClusters}
+                currentCluster={currentCluster}
+                clusterColor={clusterColor}
+                clusterName={clusterName}
+                onAssign={bedIndices => assignBeds(bedIndices, currentCluster)}
+                hoveredIndex={hoveredBedIndex}
+                onHoverBed={setHoveredBedIndex}
+                width={canvasSize.width}
+              />
+            )}
+          </div>
+
+          {/* Detected beds on the uploaded sketch, linked to the scatter plot by hover */}
+          <div className="mt-6">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-lg font-semibold">Detected Beds on Sketch</h3>
+              <span className="text-sm text-gray-600">
+                {hoveredBedIndex !== null && bedData[hoveredBedIndex]
+                  ? `Bed ${bedData[hoveredBedIndex].bed_id}`
+                  : 'Hover a bed or a point to link them'}
+              </span>
+            </div>
+            {mode === 'image' ? (
+              <ManualClustering
+                imageUrl={imageUrl}
+                bedData={bedData}
+                imageShape={imageShape}
+                bedColors={plotData ? plotData.colors : []}
+                assignments={manualAssignments}
+                currentCluster={currentCluster}
+                clusterColor={clusterColor}
+                clusterName={clusterName}
+                onAssign={assignBeds}
+                hoveredIndex={hoveredBedIndex}
+                onHoverBed={setHoveredBedIndex}
+                maxWidth={canvasSize.width}
+                maxHeight={canvasSize.height}
+              />
+            ) : (
+              <BedOverlay
+                imageUrl={imageUrl}
+                bedData={bedData}
+                imageShape={imageShape}
+                bedColors={plotData ? plotData.colors : []}
+                highlightedIndex={hoveredBedIndex}
+                onHoverBed={setHoveredBedIndex}
+                maxWidth={canvasSize.width}
+                maxHeight={canvasSize.height}
+              />
+            )}
           </div>
         </div>
 
@@ -327,68 +1534,112 @@ export default function ClusteringCanvas({
           <div className="bg-blue-50 p-4 rounded-lg">
             <h3 className="font-semibold text-blue-900 mb-2">Method: {getMethodTitle()}</h3>
             <p className="text-sm text-blue-800">
-              Draw polygons around similar colored points to group plant beds by color characteristics.
+              {mode === 'color'
+                ? 'Draw polygons around similar colored points to group plant beds by color characteristics. Switch axes to refine a cluster in another projection.'
+                : 'Select beds directly on the sketch and assign them to the current cluster. Direct bed assignments override polygons.'}
             </p>
           </div>
 
-          {/* Current Cluster */}
-          <div className="bg-gray-50 p-4 rounded-lg">
-            <h3 className="font-semibold mb-2">Current Cluster: {currentCluster + 1}</h3>
-            <div className="flex items-center space-x-2">
-              <div 
-                className="w-6 h-6 rounded border-2 border-gray-300"
-                style={{ backgroundColor: CLUSTER_COLORS[currentCluster % CLUSTER_COLORS.length] }}
-              ></div>
-              <span className="text-sm text-gray-600">
-                {CLUSTER_COLORS[currentCluster % CLUSTER_COLORS.length]}
-              </span>
-            </div>
-          </div>
+          <ClusterManager
+            clusters={clusters}
+            currentClusterId={currentCluster}
+            usage={clusterUsage}
+            onSelect={selectCluster}
+            onAdd={addCluster}
+            onUpdate={updateCluster}
+            onRemove={removeCluster}
+            plants={plants}
+            meanColor={currentMeanColor}
+            onPickPlant={applyPlant}
+            onOpenLibrary={() => setShowPlantLibrary(true)}
+          />
+          {showPlantLibrary && (
+            <PlantLibrary
+              plants={plants}
+              onChange={setPlants}
+              onClose={() => setShowPlantLibrary(false)}
+            />
+          )}
 
           {/* Drawing Controls */}
           <div className="space-y-3">
-            <button
-              onClick={startDrawing}
-              disabled={isDrawing}
-              className={`w-full px-4 py-2 rounded-lg font-medium ${
-                isDrawing 
-                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                  : 'bg-blue-600 text-white hover:bg-blue-700'
-              }`}
-            >
-              {isDrawing ? 'Drawing...' : 'Start Drawing Polygon'}
-            </button>
+            {mode === 'color' && (
+              <>
+                <button
+                  onClick={startDrawing}
+                  disabled={isDrawing}
+                  className={`w-full px-4 py-2 rounded-lg font-medium ${
+                    isDrawing 
+                      ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                      : 'bg-blue-600 text-white hover:bg-blue-700'
+                  }`}
+                >
+                  {isDrawing ? 'Drawing...' : 'Start Drawing Polygon'}
+                </button>
 
-            <button
-              onClick={finishPolygon}
-              disabled={!isDrawing || currentPolygon.length < 3}
-              className={`w-full px-4 py-2 rounded-lg font-medium ${
-                !isDrawing || currentPolygon.length < 3
-                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                  : 'bg-green-600 text-white hover:bg-green-700'
-              }`}
-            >
-              Finish Polygon ({currentPolygon.length} points)
-            </button>
+                <button
+                  onClick={finishPolygon}
+                  disabled={!isDrawing || currentPolygon.length < 3}
+                  className={`w-full px-4 py-2 rounded-lg font-medium ${
+                    !isDrawing || currentPolygon.length < 3
+                      ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                      : 'bg-green-600 text-white hover:bg-green-700'
+                  }`}
+                >
+                  Finish Polygon ({currentPolygon.length} points)
+                </button>
 
-            <button
-              onClick={clearCurrentPolygon}
-              disabled={!isDrawing}
-              className={`w-full px-4 py-2 rounded-lg font-medium ${
-                !isDrawing
-                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                  : 'bg-yellow-600 text-white hover:bg-yellow-700'
-              }`}
-            >
-              Clear Current Polygon
-            </button>
+                <button
+                  onClick={clearCurrentPolygon}
+                  disabled={!isDrawing}
+                  className={`w-full px-4 py-2 rounded-lg font-medium ${
+                    !isDrawing
+                      ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                      : 'bg-yellow-600 text-white hover:bg-yellow-700'
+                  }`}
+                >
+                  Clear Current Polygon
+                </button>
+              </>
+            )}
 
-            <button
-              onClick={nextCluster}
-              className="w-full px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700"
-            >
-              Next Cluster
-            </button>
+            {mode === 'color' && selectedPolygon && (
+              <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">Selected Polygon</h4>
+                  <span className="text-sm text-gray-600">{selectedPolygon.points.length} vertices</span>
+                </div>
+                <label className="flex items-center justify-between text-sm">
+                  <span>Cluster</span>
+                  <select
+                    value={selectedPolygon.cluster_id}
+                    onChange={e => reassignPolygon(selectedPolygon.id, Number(e.target.value))}
+                    className="px-2 py-1 border border-gray-300 rounded-lg"
+                  >
+                    {clusters.map(cluster => (
+                      <option key={cluster.id} value={cluster.id}>{cluster.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => duplicatePolygon(selectedPolygon)}
+                    className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-white"
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => deletePolygon(selectedPolygon.id)}
+                    className="px-3 py-1 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700"
+                  >
+                    Delete Polygon
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Drag the shape or its vertices, click an edge midpoint to add a vertex, double-click a vertex to remove it.
+                </p>
+              </div>
+            )}
 
             <button
               onClick={clearAllPolygons}
@@ -396,8 +1647,64 @@ export default function ClusteringCanvas({
             >
               Clear All Polygons
             </button>
+
+            {Object.keys(manualAssignments).length > 0 && (
+              <button
+                onClick={() => execute(assignmentsCommand('Clear bed assignments', manualAssignments, {}))}
+                className="w-full px-4 py-2 border border-red-300 text-red-700 rounded-lg font-medium hover:bg-red-50"
+              >
+                Clear Bed Assignments
+              </button>
+            )}
+
+            {excludedBeds.length > 0 && (
+              <button
+                onClick={() => execute(excludedCommand('Restore excluded beds', excludedBeds, []))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50"
+              >
+                Restore {excludedBeds.length} Excluded Beds
+              </button>
+            )}
           </div>
 
+          {/* Beds claimed by more than one cluster */}
+          <ConflictPanel
+            conflicts={conflicts}
+            policy={conflictPolicy}
+            onPolicyChange={setConflictPolicy}
+            bedData={bedData}
+            clusterColor={clusterColor}
+            clusterName={clusterName}
+            onPick={(bedIndex, clusterId) => assignBeds([bedIndex], clusterId)}
+            onHoverBed={setHoveredBedIndex}
+          />
+
+          {/* Undo / Redo */}
+          <HistoryPanel
+            past={history.past.map(command => command.label)}
+            future={history.future.map(command => command.label)}
+            limit={HISTORY_LIMIT}
+            onUndo={() => setHistory(prev => undo(prev))}
+            onRedo={() => setHistory(prev => redo(prev))}
+          />
+
+          {/* Saved polygons and clusters from earlier sketches */}
+          {mode === 'color' && (
+            <TemplatePanel
+              templates={templates}
+              method={enhancementSelection.method}
+              canSave={completedPolygons.length > 0 && clusteringTemplateService.isAvailable()}
+              preview={templatePreview}
+              onSave={saveTemplate}
+              onPreview={setPreviewTemplateId}
+              onApply={applyTemplate}
+              onDelete={deleteTemplate}
+            />
+          )}
+
+          {/* Automatic Suggestions */}
+          <AutoClusterPanel points={enhancementSelection.plot_data} onApply={applySuggestion} />
+
           {/* Instructions */}
           <div className="bg-blue-50 p-4 rounded-lg">
             <h4 className="font-semibold text-blue-900 mb-2">Instructions:</h4>
@@ -405,8 +1712,9 @@ export default function ClusteringCanvas({
               <li>1. Click "Start Drawing Polygon"</li>
               <li>2. Click points around similar colored dots</li>
               <li>3. Click "Finish Polygon" when done</li>
-              <li>4. Use "Next Cluster" for different groups</li>
-              <li>5. Click "Process Clustering" when finished</li>
+              <li>4. Use "New Cluster" in the Clusters list for a different group, and click a cluster to draw into it</li>
+              <li>5. Click a finished polygon to edit, move or reassign it</li>
+              <li>6. Click "Process Clustering" when finished</li>
             </ol>
           </div>
 
@@ -416,42 +1724,32 @@ export default function ClusteringCanvas({
             <div className="text-sm space-y-1">
               <p>Total beds: {plotData ? plotData.x.length : 0}</p>
               <p>Polygons drawn: {completedPolygons.length}</p>
+              <p>Polygons in other projections: {completedPolygons.filter(p => (p.projection || DEFAULT_PROJECTION_ID) !== projection?.id).length}</p>
+              <p>Beds assigned directly: {Object.keys(manualAssignments).length}</p>
+              <p>Excluded outliers: {excludedBeds.length}</p>
               <p>Current polygon: {currentPolygon.length} points</p>
               <p>Method: {getMethodTitle()}</p>
             </div>
           </div>
 
-          {/* Cluster Summary */}
-          {completedPolygons.length > 0 && (
-            <div className="bg-gray-50 p-4 rounded-lg">
-              <h4 className="font-semibold mb-2">Clusters</h4>
-              <div className="text-sm space-y-1">
-                {Array.from(new Set(completedPolygons.map(p => p.cluster_id))).map(clusterId => (
-                  <div key={clusterId} className="flex items-center space-x-2">
-                    <div 
-                      className="w-3 h-3 rounded"
-                      style={{ backgroundColor: CLUSTER_COLORS[clusterId % CLUSTER_COLORS.length] }}
-                    ></div>
-                    <span>Cluster {clusterId + 1}: {completedPolygons.filter(p => p.cluster_id === clusterId).length} polygons</span>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-
           {/* Action Buttons */}
           <div className="space-y-3">
             <button
               onClick={processClustering}
-              disabled={completedPolygons.length === 0}
+              disabled={!hasClusters || hasUnresolvedConflicts}
               className={`w-full px-4 py-2 rounded-lg font-medium ${
-                completedPolygons.length === 0
+                !hasClusters || hasUnresolvedConflicts
                   ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                   : 'bg-green-600 text-white hover:bg-green-700'
               }`}
             >
               Process Clustering
             </button>
+            {hasUnresolvedConflicts && (
+              <p className="text-sm text-red-700">
+                Resolve {conflictCount} conflicting bed{conflictCount === 1 ? '' : 's'} before processing.
+              </p>
+            )}
 
             <button
               onClick={onBack}
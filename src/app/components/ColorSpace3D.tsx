@@ -0,0 +1,328 @@
+// SketchToCad-Frontend/src/app/components/ColorSpace3D.tsx
+"use client";
+
+import { MouseEvent, useEffect, useMemo, useRef, useState } from 'react';
+
+interface ColorSpace3DProps {
+  // One row per bed; the first three values are plotted
+  points: number[][];
+  axisLabels: string[];
+  colors: string[];
+  // Bed index -> cluster id of beds that already belong to a cluster
+  bedClusters: Record<number, number>;
+  currentCluster: number;
+  clusterColor: (clusterId: number) => string;
+  clusterName: (clusterId: number) => string;
+  onAssign: (bedIndices: number[]) => void;
+  hoveredIndex: number | null;
+  onHoverBed: (index: number | null) => void;
+  width?: number;
+  height?: number;
+}
+
+type SelectionShape = 'box' | 'sphere';
+
+interface ScreenPoint {
+  index: number;
+  x: number;
+  y: number;
+  depth: number;
+}
+
+type Vector3 = [number, number, number];
+
+const INITIAL_ROTATION = { yaw: -0.6, pitch: 0.35 };
+const CAMERA_DISTANCE = 4;
+const HIT_RADIUS = 6;
+
+const CUBE_EDGES: [Vector3, Vector3][] = [
+  [[-1, -1, -1], [1, -1, -1]], [[-1, 1, -1], [1, 1, -1]], [[-1, -1, 1], [1, -1, 1]], [[-1, 1, 1], [1, 1, 1]],
+  [[-1, -1, -1], [-1, 1, -1]], [[1, -1, -1], [1, 1, -1]], [[-1, -1, 1], [-1, 1, 1]], [[1, -1, 1], [1, 1, 1]],
+  [[-1, -1, -1], [-1, -1, 1]], [[1, -1, -1], [1, -1, 1]], [[-1, 1, -1], [-1, 1, 1]], [[1, 1, -1], [1, 1, 1]]
+];
+
+// Scales each of the first three dimensions to [-1, 1]; missing dimensions sit at 0
+const normalizePoints = (points: number[][]): Vector3[] => {
+  const ranges = [0, 1, 2].map(d => {
+    let min = Infinity;
+    let max = -Infinity;
+    points.forEach(point => {
+      const value = point[d] ?? 0;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    return { min, span: max - min };
+  });
+
+  return points.map(point => [0, 1, 2].map(d => {
+    const { min, span } = ranges[d];
+    return span > 0 ? ((point[d] ?? 0) - min) / span * 2 - 1 : 0;
+  }) as Vector3);
+};
+
+const isInside = (point: Vector3, shape: SelectionShape, center: Vector3, size: number) => {
+  if (shape === 'box') {
+    return point.every((value, d) => Math.abs(value - center[d]) <= size);
+  }
+  const distanceSquared = point.reduce((sum, value, d) => sum + (value - center[d]) ** 2, 0);
+  return distanceSquared <= size * size;
+};
+
+export default function ColorSpace3D({
+  points,
+  axisLabels,
+  colors,
+  bedClusters,
+  currentCluster,
+  clusterColor,
+  clusterName,
+  onAssign,
+  hoveredIndex,
+  onHoverBed,
+  width = 800,
+  height = 500
+}: ColorSpace3DProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const screenPointsRef = useRef<ScreenPoint[]>([]);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const [rotation, setRotation] = useState(INITIAL_ROTATION);
+  const [shape, setShape] = useState<SelectionShape>('sphere');
+  const [center, setCenter] = useState<Vector3>([0, 0, 0]);
+  const [size, setSize] = useState(0.3);
+
+  const normalized = useMemo(() => normalizePoints(points), [points]);
+
+  const selected = useMemo(
+    () => normalized.flatMap((point, index) => isInside(point, shape, center, size) ? [index] : []),
+    [normalized, shape, center, size]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const scale = Math.min(width, height) * 0.3;
+    const cosYaw = Math.cos(rotation.yaw);
+    const sinYaw = Math.sin(rotation.yaw);
+    const cosPitch = Math.cos(rotation.pitch);
+    const sinPitch = Math.sin(rotation.pitch);
+
+    const project = ([x, y, z]: Vector3) => {
+      const x1 = x * cosYaw + z * sinYaw;
+      const z1 = -x * sinYaw + z * cosYaw;
+      const y2 = y * cosPitch - z1 * sinPitch;
+      const z2 = y * sinPitch + z1 * cosPitch;
+      const perspective = CAMERA_DISTANCE / (CAMERA_DISTANCE - z2);
+      return { x: width / 2 + x1 * scale * perspective, y: height / 2 - y2 * scale * perspective, depth: z2 };
+    };
+
+    const strokePath = (path: Vector3[], color: string, lineWidth: number, closed = false) => {
+      ctx.beginPath();
+      path.forEach((point, i) => {
+        const p = project(point);
+        if (i === 0) ctx.moveTo(p.x, p.y);
+        else ctx.lineTo(p.x, p.y);
+      });
+      if (closed) ctx.closePath();
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.stroke();
+    };
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Bounding cube and axis labels
+    CUBE_EDGES.forEach(edge => strokePath(edge, '#D1D5DB', 1));
+    ctx.fillStyle = '#374151';
+    ctx.font = '12px sans-serif';
+    ([[1.15, -1, -1], [-1, 1.15, -1], [-1, -1, 1.15]] as Vector3[]).forEach((tip, d) => {
+      const p = project(tip);
+      ctx.fillText(axisLabels[d] || '', p.x, p.y);
+    });
+
+    // Points, far to near so nearer beds are painted on top
+    const screenPoints = normalized
+      .map((point, index) => ({ index, ...project(point) }))
+      .sort((a, b) => a.depth - b.depth);
+    const selectedSet = new Set(selected);
+
+    screenPoints.forEach(({ index, x, y }) => {
+      const isHovered = hoveredIndex === index;
+      const clusterId = bedClusters[index];
+      ctx.beginPath();
+      ctx.arc(x, y, isHovered ? 7 : 4, 0, Math.PI * 2);
+      ctx.fillStyle = colors[index] || '#000000';
+      ctx.fill();
+      ctx.lineWidth = isHovered || selectedSet.has(index) || clusterId !== undefined ? 2 : 0.5;
+      ctx.strokeStyle = isHovered
+        ? '#2563EB'
+        : selectedSet.has(index)
+          ? clusterColor(currentCluster)
+          : clusterId !== undefined ? clusterColor(clusterId) : '#000000';
+      ctx.stroke();
+    });
+    screenPointsRef.current = screenPoints;
+
+    // Selection volume
+    const selectionColor = clusterColor(currentCluster);
+    if (shape === 'box') {
+      CUBE_EDGES.forEach(([a, b]) => strokePath(
+        [a.map((v, d) => center[d] + v * size) as Vector3, b.map((v, d) => center[d] + v * size) as Vector3],
+        selectionColor,
+        2
+      ));
+    } else {
+      const steps = 48;
+      [[0, 1], [0, 2], [1, 2]].forEach(([u, v]) => {
+        const ring = Array.from({ length: steps }, (_, i) => {
+          const angle = (i / steps) * Math.PI * 2;
+          const point = center.slice() as Vector3;
+          point[u] += Math.cos(angle) * size;
+          point[v] += Math.sin(angle) * size;
+          return point;
+        });
+        strokePath(ring, selectionColor, 1.5, true);
+      });
+    }
+  }, [normalized, colors, bedClusters, selected, rotation, shape, center, size, hoveredIndex, currentCluster, clusterColor, axisLabels, width, height]);
+
+  const pointerPosition = (e: MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // Nearest painted point under the cursor, preferring the ones drawn on top
+  const hitTest = (x: number, y: number): number | null => {
+    const points = screenPointsRef.current;
+    for (let i = points.length - 1; i >= 0; i--) {
+      if ((points[i].x - x) ** 2 + (points[i].y - y) ** 2 <= HIT_RADIUS * HIT_RADIUS) return points[i].index;
+    }
+    return null;
+  };
+
+  const handleMouseDown = (e: MouseEvent<HTMLCanvasElement>) => {
+    dragRef.current = { ...pointerPosition(e), moved: false };
+  };
+
+  const handleMouseMove = (e: MouseEvent<HTMLCanvasElement>) => {
+    const position = pointerPosition(e);
+    const drag = dragRef.current;
+
+    if (!drag) {
+      onHoverBed(hitTest(position.x, position.y));
+      return;
+    }
+
+    const dx = position.x - drag.x;
+    const dy = position.y - drag.y;
+    if (Math.abs(dx) + Math.abs(dy) > 2) drag.moved = true;
+    dragRef.current = { ...position, moved: drag.moved };
+    setRotation(prev => ({
+      yaw: prev.yaw + dx * 0.01,
+      pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, prev.pitch + dy * 0.01))
+    }));
+  };
+
+  const handleMouseUp = (e: MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+
+    // A click without dragging centres the selection on the clicked bed
+    const position = pointerPosition(e);
+    const index = hitTest(position.x, position.y);
+    if (index !== null) setCenter(normalized[index]);
+  };
+
+  const assignSelection = () => {
+    if (selected.length === 0) return;
+    onAssign(selected);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+          {(['sphere', 'box'] as SelectionShape[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setShape(option)}
+              className={`px-3 py-1 text-sm font-medium ${
+                shape === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'sphere' ? 'Sphere' : 'Box'}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={assignSelection}
+          disabled={selected.length === 0}
+          className={`px-3 py-1 rounded-lg text-sm font-medium ${
+            selected.length === 0
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              : 'bg-green-600 text-white hover:bg-green-700'
+          }`}
+        >
+          Assign {selected.length} to {clusterName(currentCluster)}
+        </button>
+
+        <button
+          onClick={() => setRotation(INITIAL_ROTATION)}
+          className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-gray-50"
+        >
+          Reset View
+        </button>
+      </div>
+
+      <div className="border-2 border-gray-200 rounded-lg overflow-hidden bg-gray-50 inline-block">
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          className="cursor-grab active:cursor-grabbing"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => {
+            dragRef.current = null;
+            onHoverBed(null);
+          }}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3 text-sm">
+        {[0, 1, 2].map(d => (
+          <label key={d} className="flex flex-col">
+            <span className="text-gray-600">{axisLabels[d] || `Axis ${d + 1}`} center</span>
+            <input
+              type="range"
+              min={-1}
+              max={1}
+              step={0.01}
+              value={center[d]}
+              onChange={e => setCenter(prev => prev.map((value, i) => i === d ? Number(e.target.value) : value) as Vector3)}
+            />
+          </label>
+        ))}
+        <label className="flex flex-col">
+          <span className="text-gray-600">{shape === 'sphere' ? 'Radius' : 'Half width'}</span>
+          <input
+            type="range"
+            min={0.02}
+            max={2}
+            step={0.01}
+            value={size}
+            onChange={e => setSize(Number(e.target.value))}
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-2">
+        Drag to rotate. Click a bed to centre the selection on it, then size the {shape} to capture its neighbours.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+// SketchToCad-Frontend/src/app/components/ConflictPanel.tsx
+"use client";
+
+import { BedData } from '../types/bed/BedData';
+import { ConflictPolicy } from '@/utils/conflict.utils';
+
+interface ConflictPanelProps {
+  // Bed index -> cluster ids claiming it
+  conflicts: Record<number, number[]>;
+  policy: ConflictPolicy;
+  onPolicyChange: (policy: ConflictPolicy) => void;
+  bedData: BedData[];
+  clusterColor: (clusterId: number) => string;
+  clusterName: (clusterId: number) => string;
+  onPick: (bedIndex: number, clusterId: number) => void;
+  onHoverBed: (index: number | null) => void;
+}
+
+const POLICY_LABELS: Record<ConflictPolicy, string> = {
+  'manual': 'Pick manually',
+  'first-drawn': 'First-drawn polygon wins',
+  'smallest-polygon': 'Smallest polygon wins',
+  'nearest-centroid': 'Nearest cluster centroid'
+};
+
+// Long conflict lists are cut off; picking clusters or changing policy shrinks them quickly
+const MAX_LISTED = 50;
+
+export default function ConflictPanel({
+  conflicts,
+  policy,
+  onPolicyChange,
+  bedData,
+  clusterColor,
+  clusterName,
+  onPick,
+  onHoverBed
+}: ConflictPanelProps) {
+  const entries = Object.entries(conflicts).map(([bedIndex, clusterIds]) => ({ bedIndex: Number(bedIndex), clusterIds }));
+  if (entries.length === 0) return null;
+
+  const isBlocking = policy === 'manual';
+
+  return (
+    <div className={`p-4 rounded-lg border ${isBlocking ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+      <h4 className={`font-semibold mb-1 ${isBlocking ? 'text-red-900' : 'text-yellow-900'}`}>
+        {entries.length} bed{entries.length === 1 ? '' : 's'} in multiple clusters
+      </h4>
+      <p className={`text-sm mb-3 ${isBlocking ? 'text-red-800' : 'text-yellow-800'}`}>
+        {isBlocking
+          ? 'Pick a cluster for each bed or choose a resolution policy before processing.'
+          : 'These beds are resolved automatically by the policy below.'}
+      </p>
+
+      <label className="flex flex-col text-sm mb-3">
+        <span className="font-medium mb-1">Resolution</span>
+        <select
+          value={policy}
+          onChange={e => onPolicyChange(e.target.value as ConflictPolicy)}
+          className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+        >
+          {(Object.keys(POLICY_LABELS) as ConflictPolicy[]).map(option => (
+            <option key={option} value={option}>{POLICY_LABELS[option]}</option>
+          ))}
+        </select>
+      </label>
+
+      {isBlocking && (
+        <ul className="text-sm space-y-1 max-h-48 overflow-y-auto">
+          {entries.slice(0, MAX_LISTED).map(({ bedIndex, clusterIds }) => (
+            <li
+              key={bedIndex}
+              className="flex items-center justify-between bg-white rounded px-2 py-1"
+              onMouseEnter={() => onHoverBed(bedIndex)}
+              onMouseLeave={() => onHoverBed(null)}
+            >
+              <span>Bed {bedData[bedIndex]?.bed_id ?? bedIndex}</span>
+              <span className="flex space-x-1">
+                {clusterIds.map(clusterId => (
+                  <button
+                    key={clusterId}
+                    onClick={() => onPick(bedIndex, clusterId)}
+                    title={`Keep in ${clusterName(clusterId)}`}
+                    className="flex items-center space-x-1 px-2 py-0.5 rounded border border-gray-300 hover:bg-gray-50 text-xs"
+                  >
+                    <span className="w-2 h-2 rounded" style={{ backgroundColor: clusterColor(clusterId) }}></span>
+                    <span className="max-w-[6rem] truncate">{clusterName(clusterId)}</span>
+                  </button>
+                ))}
+              </span>
+            </li>
+          ))}
+          {entries.length > MAX_LISTED && (
+            <li className="text-xs text-red-700 px-2">and {entries.length - MAX_LISTED} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
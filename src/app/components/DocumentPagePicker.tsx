@@ -0,0 +1,221 @@
+// SketchToCad-Frontend/src/app/components/DocumentPagePicker.tsx
+"use client";
+
+import { useEffect, useState } from 'react';
+import { RasterisedPage } from '../types/image/DocumentPage';
+import { IMAGE_CONFIG } from '../../config/image.config';
+import { documentRasterService, DPI_OPTIONS, RasterDocument } from '../../services/document-raster.service';
+import { ImagePreflightError } from '../../services/image-preflight.service';
+import { effectiveDpi, MM_PER_INCH, paperName, rasterSize } from '../../utils/document-raster.utils';
+
+interface DocumentPagePickerProps {
+  file: File;
+  // Whether several pages may be picked; each becomes its own sketch
+  multiple: boolean;
+  onConfirm: (pages: RasterisedPage[]) => void;
+  onCancel: () => void;
+}
+
+const THUMBNAIL_SIZE = 160;
+
+export default function DocumentPagePicker({ file, multiple, onConfirm, onCancel }: DocumentPagePickerProps) {
+  const [raster, setRaster] = useState<RasterDocument | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [selected, setSelected] = useState<number[]>([0]);
+  const [dpi, setDpi] = useState(() => documentRasterService.getPreferredDpi());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let opened: RasterDocument | null = null;
+    const urls: string[] = [];
+
+    const load = async () => {
+      try {
+        opened = await documentRasterService.open(file);
+        if (cancelled) return;
+        setRaster(opened);
+
+        // One at a time, so the first pages show up quickly and memory stays flat
+        for (const page of opened.pages) {
+          const blob = await opened.renderThumbnail(page.index, THUMBNAIL_SIZE);
+          if (cancelled) return;
+          const url = URL.createObjectURL(blob);
+          urls.push(url);
+          setThumbnails(current => ({ ...current, [page.index]: url }));
+        }
+      } catch (err: unknown) {
+        if (cancelled) return;
+        console.error('Loading document pages failed:', err);
+        setError(err instanceof ImagePreflightError ? err.message : `${file.name} could not be opened.`);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      opened?.close();
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [file]);
+
+  const togglePage = (index: number) => {
+    if (!multiple) {
+      setSelected([index]);
+      return;
+    }
+    setSelected(current => (current.includes(index)
+      ? current.filter(i => i !== index)
+      : [...current, index].sort((a, b) => a - b)));
+  };
+
+  const changeDpi = (value: number) => {
+    setDpi(value);
+    documentRasterService.setPreferredDpi(value);
+  };
+
+  const rasterise = async () => {
+    if (!raster || selected.length === 0) return;
+    setError(null);
+    try {
+      const pages = await documentRasterService.rasterise(file, raster, selected, dpi, (done, total) =>
+        setProgress({ done, total })
+      );
+      onConfirm(pages);
+    } catch (err: unknown) {
+      console.error('Rendering pages failed:', err);
+      setError('Rendering the pages failed. Try a lower DPI.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (error && !raster) {
+    return (
+      <div className="w-full max-w-4xl mx-auto bg-white rounded-lg shadow p-8 text-center">
+        <p className="text-red-700 font-medium mb-4">{error}</p>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+        >
+          Choose another file
+        </button>
+      </div>
+    );
+  }
+
+  if (!raster) {
+    return (
+      <div className="w-full max-w-4xl mx-auto bg-white rounded-lg shadow p-8 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Opening {file.name}...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto bg-white rounded-lg shadow p-6">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 break-all">{file.name}</h3>
+          <p className="text-sm text-gray-600">
+            {raster.pages.length} page{raster.pages.length === 1 ? '' : 's'} ·{' '}
+            {multiple ? 'each selected page is processed as its own sketch' : 'pick the page to process'}
+          </p>
+        </div>
+        <div className="flex items-end gap-3 text-sm">
+          {multiple && raster.pages.length > 1 && (
+            <button
+              onClick={() => setSelected(selected.length === raster.pages.length ? [] : raster.pages.map(p => p.index))}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              {selected.length === raster.pages.length ? 'Select none' : 'Select all'}
+            </button>
+          )}
+          <label>
+            <span className="block font-medium text-gray-700">Resolution</span>
+            <select
+              value={dpi}
+              onChange={e => changeDpi(Number(e.target.value))}
+              className="mt-1 px-2 py-1 border border-gray-300 rounded-lg"
+            >
+              {DPI_OPTIONS.map(option => (
+                <option key={option} value={option}>{option} DPI</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3 max-h-[60vh] overflow-y-auto p-1">
+        {raster.pages.map(page => {
+          const isSelected = selected.includes(page.index);
+          const pageDpi = effectiveDpi(page, dpi, IMAGE_CONFIG.maxMegapixels);
+          const size = rasterSize(page, pageDpi, IMAGE_CONFIG.maxMegapixels);
+          const paper = paperName(page);
+
+          return (
+            <button
+              key={page.index}
+              onClick={() => togglePage(page.index)}
+              className={`text-left rounded-lg border-2 p-2 transition-colors ${
+                isSelected ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-gray-400'
+              }`}
+            >
+              <div className="h-40 flex items-center justify-center bg-gray-100 rounded mb-2">
+                {thumbnails[page.index] ? (
+                  <img src={thumbnails[page.index]} alt={`Page ${page.index + 1}`} className="max-h-full max-w-full shadow" />
+                ) : (
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-400"></div>
+                )}
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Page {page.index + 1}</span>
+                <input type="checkbox" checked={isSelected} readOnly className="pointer-events-none" />
+              </div>
+              <p className="text-xs text-gray-500">
+                {page.widthInches && page.heightInches
+                  ? `${paper ? `${paper} · ` : ''}${Math.round(page.widthInches * MM_PER_INCH)}×${Math.round(page.heightInches * MM_PER_INCH)} mm`
+                  : 'No physical size stored'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {size.width}×{size.height} px
+                {pageDpi !== null && pageDpi < dpi && (
+                  <span className="text-yellow-700">
+                    {' '}at {pageDpi} DPI{page.nativeDpi && pageDpi >= Math.floor(page.nativeDpi) ? ' (scan resolution)' : ' (size limit)'}
+                  </span>
+                )}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-sm text-red-700 mt-3">{error}</p>}
+
+      <div className="flex justify-end items-center space-x-3 mt-6">
+        {progress && (
+          <span className="text-sm text-gray-600">
+            Rendering page {Math.min(progress.done + 1, progress.total)} of {progress.total}...
+          </span>
+        )}
+        <button
+          onClick={onCancel}
+          disabled={progress !== null}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={rasterise}
+          disabled={selected.length === 0 || progress !== null}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {selected.length > 1 ? `Continue with ${selected.length} pages` : 'Continue'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ interface EnhancementSelectorProps {
   onBack: () => void;
 }
 
-const ENHANCEMENT_METHODS = [
+export const ENHANCEMENT_METHODS = [
   {
     key: 'original',
     title: 'Original Colors',
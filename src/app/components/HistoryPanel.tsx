@@ -0,0 +1,65 @@
+// SketchToCad-Frontend/src/app/components/HistoryPanel.tsx
+"use client";
+
+interface HistoryPanelProps {
+  // Labels of applied commands, oldest first
+  past: string[];
+  // Labels of undone commands, next redo first
+  future: string[];
+  limit: number;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export default function HistoryPanel({ past, future, limit, onUndo, onRedo }: HistoryPanelProps) {
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold">History</h4>
+        <div className="flex space-x-2">
+          <button
+            onClick={onUndo}
+            disabled={past.length === 0}
+            title="Undo (Ctrl+Z)"
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-white disabled:text-gray-400 disabled:hover:bg-transparent"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-white disabled:text-gray-400 disabled:hover:bg-transparent"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+
+      {past.length === 0 && future.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes yet.</p>
+      ) : (
+        <ol className="text-sm space-y-1 max-h-40 overflow-y-auto">
+          {/* Redo stack above the present, greyed out, so the list reads newest first */}
+          {future.slice().reverse().map((label, index) => (
+            <li key={`future_${index}`} className="px-2 py-0.5 text-gray-400 line-through">
+              {label}
+            </li>
+          ))}
+          {past.slice().reverse().map((label, index) => (
+            <li
+              key={`past_${index}`}
+              className={`px-2 py-0.5 rounded ${index === 0 ? 'bg-blue-100 text-blue-800' : 'text-gray-700'}`}
+            >
+              {label}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {past.length >= limit && (
+        <p className="text-xs text-gray-500 mt-2">Only the last {limit} changes are kept.</p>
+      )}
+    </div>
+  );
+}
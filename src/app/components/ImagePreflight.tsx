@@ -0,0 +1,466 @@
+// SketchToCad-Frontend/src/app/components/ImagePreflight.tsx
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { Quad } from '../types/geometry/Quad';
+import { CropRect, ImageDimensions, PreflightTransform } from '../types/image/ImagePreflight';
+import { IMAGE_CONFIG } from '../../config/image.config';
+import { imagePreflightService, ImagePreflightError } from '../../services/image-preflight.service';
+import {
+  CropHandle,
+  dragCrop,
+  formatBytes,
+  formatMegapixels,
+  FULL_CROP,
+  outputDimensions,
+  quadToPixels,
+  rotatedBounds
+} from '../../utils/image-preflight.utils';
+import { estimateAspectRatio, isConvexQuad } from '../../utils/homography.utils';
+
+interface ImagePreflightProps {
+  file: File;
+  // scale: how much the pixels were downscaled, so a known source DPI can be carried over
+  onConfirm: (file: File, scale: number) => void;
+  onCancel: () => void;
+}
+
+type PreflightStage = 'checking' | 'edit' | 'processing' | 'confirm' | 'error';
+type EditMode = 'crop' | 'perspective';
+
+const MAX_SKEW = 15;
+const CORNERS: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: '-left-2 -top-2 cursor-nwse-resize' },
+  { handle: 'ne', className: '-right-2 -top-2 cursor-nesw-resize' },
+  { handle: 'sw', className: '-left-2 -bottom-2 cursor-nesw-resize' },
+  { handle: 'se', className: '-right-2 -bottom-2 cursor-nwse-resize' }
+];
+
+// Starting corners, inset so every handle can be grabbed
+const DEFAULT_CORNERS: Quad = [
+  { x: 0.05, y: 0.05 },
+  { x: 0.95, y: 0.05 },
+  { x: 0.95, y: 0.95 },
+  { x: 0.05, y: 0.95 }
+];
+
+// Long side over short side; null estimates it from the photo
+const PAPER_FORMATS: { key: string; label: string; ratio: number | null }[] = [
+  { key: 'auto', label: 'Estimate from the photo', ratio: null },
+  { key: 'iso', label: 'ISO A series (A4, A3, ...)', ratio: Math.SQRT2 },
+  { key: 'letter', label: 'US Letter', ratio: 11 / 8.5 }
+];
+
+const errorMessage = (err: unknown) =>
+  err instanceof ImagePreflightError ? err.message : 'The image could not be prepared for upload.';
+
+export default function ImagePreflight({ file, onConfirm, onCancel }: ImagePreflightProps) {
+  const [stage, setStage] = useState<PreflightStage>('checking');
+  const [error, setError] = useState<string | null>(null);
+  const [dimensions, setDimensions] = useState<ImageDimensions | null>(null);
+  const [quarterTurns, setQuarterTurns] = useState(0);
+  const [skew, setSkew] = useState(0);
+  const [mode, setMode] = useState<EditMode>('crop');
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+  const [corners, setCorners] = useState<Quad>(DEFAULT_CORNERS);
+  const [paperFormat, setPaperFormat] = useState('auto');
+  const [maxDimension, setMaxDimension] = useState(IMAGE_CONFIG.maxDimension);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [result, setResult] = useState<{ file: File; url: string; width: number; height: number; scale: number } | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  // A crop handle, or the index of a paper corner
+  const dragRef = useRef<{
+    target: CropHandle | number;
+    startX: number;
+    startY: number;
+    startCrop: CropRect;
+    startCorners: Quad;
+  } | null>(null);
+  const previewRequestRef = useRef(0);
+
+  const rotation = quarterTurns * 90 + skew;
+
+  const cornersValid = isConvexQuad(corners);
+  const aspectRatio = (() => {
+    if (!dimensions) return 1;
+    const bounds = rotatedBounds(dimensions, rotation);
+    const estimated = cornersValid ? estimateAspectRatio(quadToPixels(corners, bounds), bounds) : 1;
+    const preset = PAPER_FORMATS.find(format => format.key === paperFormat)?.ratio;
+    // A preset fixes the proportions; the estimate still decides portrait or landscape
+    return preset ? (estimated >= 1 ? preset : 1 / preset) : estimated;
+  })();
+
+  const transform: PreflightTransform = {
+    rotation,
+    crop,
+    perspective: mode === 'perspective' ? { corners, aspectRatio } : null
+  };
+
+  // Validate as soon as a file arrives; nothing is uploaded until the user confirms
+  useEffect(() => {
+    let cancelled = false;
+    setStage('checking');
+    setError(null);
+
+    imagePreflightService.inspect(file)
+      .then(size => {
+        if (cancelled) return;
+        setDimensions(size);
+        setStage('edit');
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.error('Image preflight failed:', err);
+        setError(errorMessage(err));
+        setStage('error');
+      });
+
+    return () => {
+      cancelled = true;
+      imagePreflightService.release(file);
+    };
+  }, [file]);
+
+  // Re-render the rotated preview, debounced while the deskew slider moves
+  useEffect(() => {
+    if (!dimensions) return;
+    const request = ++previewRequestRef.current;
+
+    const timer = setTimeout(() => {
+      imagePreflightService.render(file, { rotation, crop: FULL_CROP }, IMAGE_CONFIG.previewMaxDimension)
+        .then(preview => {
+          if (request !== previewRequestRef.current) return;
+          setPreviewUrl(URL.createObjectURL(preview.blob));
+        })
+        .catch((err: unknown) => {
+          if (request !== previewRequestRef.current) return;
+          setError(errorMessage(err));
+          setStage('error');
+        });
+    }, 150);
+
+    return () => clearTimeout(timer);
+  }, [file, dimensions, rotation]);
+
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  useEffect(() => () => {
+    if (result) URL.revokeObjectURL(result.url);
+  }, [result]);
+
+  const turn = (direction: 1 | -1) => {
+    setQuarterTurns(current => (current + direction + 4) % 4);
+    // Crop and corner fractions refer to the rotated frame, which a quarter turn transposes
+    setCrop(FULL_CROP);
+    setCorners(DEFAULT_CORNERS);
+  };
+
+  const startDrag = (target: CropHandle | number) => (event: React.PointerEvent) => {
+    event.stopPropagation();
+    (event.target as Element).setPointerCapture(event.pointerId);
+    dragRef.current = { target, startX: event.clientX, startY: event.clientY, startCrop: crop, startCorners: corners };
+  };
+
+  const onDrag = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+
+    const dx = (event.clientX - drag.startX) / bounds.width;
+    const dy = (event.clientY - drag.startY) / bounds.height;
+
+    if (typeof drag.target === 'number') {
+      const index = drag.target;
+      const start = drag.startCorners[index];
+      setCorners(drag.startCorners.map((corner, i) => (i === index
+        ? { x: Math.min(1, Math.max(0, start.x + dx)), y: Math.min(1, Math.max(0, start.y + dy)) }
+        : corner)) as Quad);
+    } else {
+      setCrop(dragCrop(drag.startCrop, drag.target, dx, dy));
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const process = async () => {
+    setStage('processing');
+    setError(null);
+    try {
+      const prepared = await imagePreflightService.toUploadFile(file, transform, maxDimension);
+      const size = outputDimensions(dimensions!, transform, maxDimension);
+      setResult({ file: prepared, url: URL.createObjectURL(prepared), ...size });
+      setStage('confirm');
+    } catch (err: unknown) {
+      console.error('Preparing image failed:', err);
+      setError(errorMessage(err));
+      setStage('edit');
+    }
+  };
+
+  const output = dimensions ? outputDimensions(dimensions, transform, maxDimension) : null;
+  const isCropped = crop.width < 1 || crop.height < 1;
+
+  if (stage === 'checking') {
+    return (
+      <div className="w-full max-w-4xl mx-auto bg-white rounded-lg shadow p-8 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Checking {file.name}...</span>
+      </div>
+    );
+  }
+
+  if (stage === 'error') {
+    return (
+      <div className="w-full max-w-4xl mx-auto bg-white rounded-lg shadow p-8 text-center">
+        <p className="text-red-700 font-medium mb-4">{error}</p>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+        >
+          Choose another image
+        </button>
+      </div>
+    );
+  }
+
+  if (stage === 'confirm' && result && dimensions) {
+    return (
+      <div className="w-full max-w-4xl mx-auto bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Upload this image?</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {result.width}×{result.height} px, {formatBytes(result.file.size)}
+          <span className="text-gray-400">
+            {' '}(from {dimensions.width}×{dimensions.height} px, {formatBytes(file.size)})
+          </span>
+        </p>
+        <img
+          src={result.url}
+          alt="Prepared sketch"
+          className="max-w-full max-h-[60vh] mx-auto rounded-lg shadow-lg"
+        />
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={() => setStage('edit')}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+          >
+            Back to editing
+          </button>
+          <button
+            onClick={() => onConfirm(result.file, result.scale)}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+          >
+            Upload
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto bg-white rounded-lg shadow p-6">
+      <div className="flex flex-col lg:flex-row lg:space-x-6 space-y-4 lg:space-y-0">
+        <div className="flex-1 flex items-center justify-center bg-gray-100 rounded-lg p-4 min-h-[20rem] overflow-hidden">
+          {previewUrl ? (
+            <div
+              ref={containerRef}
+              className="relative inline-block select-none touch-none"
+              onPointerMove={onDrag}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              <img src={previewUrl} alt="Sketch preview" draggable={false} className="block max-w-full max-h-[60vh]" />
+              {mode === 'crop' ? (
+                <div
+                  onPointerDown={startDrag('move')}
+                  className="absolute border-2 border-white cursor-move"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                    // Grid to line the sketch up against while deskewing
+                    backgroundImage:
+                      'linear-gradient(rgba(255,255,255,0.35) 1px, transparent 1px),' +
+                      'linear-gradient(90deg, rgba(255,255,255,0.35) 1px, transparent 1px)',
+                    backgroundSize: '12.5% 12.5%'
+                  }}
+                >
+                  {CORNERS.map(({ handle, className }) => (
+                    <div
+                      key={handle}
+                      onPointerDown={startDrag(handle)}
+                      className={`absolute w-4 h-4 bg-white border-2 border-blue-600 rounded-sm ${className}`}
+                    ></div>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                    <polygon
+                      points={corners.map(({ x, y }) => `${x},${y}`).join(' ')}
+                      fill="rgba(37, 99, 235, 0.15)"
+                      stroke={cornersValid ? '#2563eb' : '#dc2626'}
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </svg>
+                  {corners.map((corner, index) => (
+                    <div
+                      key={index}
+                      onPointerDown={startDrag(index)}
+                      className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full bg-white border-2 border-blue-600 cursor-move"
+                      style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                    ></div>
+                  ))}
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          )}
+        </div>
+
+        <div className="lg:w-72 space-y-4 text-sm">
+          <div>
+            <h3 className="font-semibold text-gray-900 break-all">{file.name}</h3>
+            {dimensions && (
+              <p className="text-gray-600">
+                {dimensions.width}×{dimensions.height} px · {formatMegapixels(dimensions)} · {formatBytes(file.size)}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <p className="font-medium text-gray-700 mb-1">Rotate</p>
+            <div className="flex space-x-2">
+              <button onClick={() => turn(-1)} className="flex-1 px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50">
+                ⟲ 90°
+              </button>
+              <button onClick={() => turn(1)} className="flex-1 px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50">
+                ⟳ 90°
+              </button>
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="flex justify-between font-medium text-gray-700">
+              Straighten <span className="font-normal text-gray-500">{skew > 0 ? '+' : ''}{skew.toFixed(1)}°</span>
+            </span>
+            <input
+              type="range"
+              min={-MAX_SKEW}
+              max={MAX_SKEW}
+              step={0.5}
+              value={skew}
+              onChange={e => setSkew(Number(e.target.value))}
+              onDoubleClick={() => setSkew(0)}
+              className="w-full"
+            />
+          </label>
+
+          <div>
+            <div className="inline-flex w-full rounded-lg border border-gray-300 overflow-hidden mb-2">
+              {(['crop', 'perspective'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`flex-1 px-3 py-1 ${mode === option ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+                >
+                  {option === 'crop' ? 'Crop' : 'Perspective'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'crop' ? (
+              <>
+                <p className="text-gray-500">Drag the corners to cut away the table or page edges.</p>
+                {isCropped && (
+                  <button onClick={() => setCrop(FULL_CROP)} className="text-blue-600 hover:text-blue-800 mt-1">
+                    Reset crop
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <p className="text-gray-500">
+                  For photos taken at an angle: drag the four points onto the corners of the paper.
+                  The sheet is flattened so bed areas come out right.
+                </p>
+                <label className="block mt-2">
+                  <span className="text-gray-700">Paper format</span>
+                  <select
+                    value={paperFormat}
+                    onChange={e => setPaperFormat(e.target.value)}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg"
+                  >
+                    {PAPER_FORMATS.map(format => (
+                      <option key={format.key} value={format.key}>{format.label}</option>
+                    ))}
+                  </select>
+                </label>
+                {cornersValid ? (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Proportions {Math.max(aspectRatio, 1 / aspectRatio).toFixed(2)} : 1
+                    ({aspectRatio >= 1 ? 'landscape' : 'portrait'})
+                  </p>
+                ) : (
+                  <p className="text-xs text-red-700 mt-1">
+                    The corners cross over. Place them clockwise from the top left.
+                  </p>
+                )}
+                <button onClick={() => setCorners(DEFAULT_CORNERS)} className="text-blue-600 hover:text-blue-800 mt-1">
+                  Reset corners
+                </button>
+              </>
+            )}
+          </div>
+
+          <label className="block">
+            <span className="font-medium text-gray-700">Maximum resolution</span>
+            <select
+              value={maxDimension}
+              onChange={e => setMaxDimension(Number(e.target.value))}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg"
+            >
+              {Array.from(new Set([...IMAGE_CONFIG.maxDimensionOptions, IMAGE_CONFIG.maxDimension]))
+                .sort((a, b) => a - b)
+                .map(option => (
+                  <option key={option} value={option}>{option} px longest side</option>
+                ))}
+            </select>
+            {output && (
+              <span className="block text-xs text-gray-500 mt-1">
+                Uploads as {output.width}×{output.height} px
+                {output.scale < 1 ? ` (downscaled ${Math.round(output.scale * 100)}%)` : ''}
+              </span>
+            )}
+          </label>
+
+          {error && <p className="text-red-700">{error}</p>}
+
+          <div className="flex space-x-2 pt-2">
+            <button
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={process}
+              disabled={stage === 'processing' || !previewUrl || (mode === 'perspective' && !cornersValid)}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              {stage === 'processing' ? 'Preparing...' : 'Continue'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
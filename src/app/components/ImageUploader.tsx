@@ -2,38 +2,111 @@
 "use client";
 
 import { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { FileRejection, useDropzone } from 'react-dropzone';
+import ImagePreflight from './ImagePreflight';
+import DocumentPagePicker from './DocumentPagePicker';
+import { RasterisedPage } from '../types/image/DocumentPage';
+import { IMAGE_CONFIG } from '../../config/image.config';
+import { documentRasterService } from '../../services/document-raster.service';
+import { formatBytes } from '../../utils/image-preflight.utils';
 
 interface ImageUploaderProps {
-  onUpload: (file: File) => void;
+  // sourceDpi is known for pages rasterised from a PDF or TIFF
+  onUpload: (file: File, sourceDpi: number | null) => void;
+  // Several pages picked from one document; without it only one page can be picked
+  onMultiplePages?: (pages: RasterisedPage[]) => void;
 }
 
-export default function ImageUploader({ onUpload }: ImageUploaderProps) {
+export default function ImageUploader({ onUpload, onMultiplePages }: ImageUploaderProps) {
   const [preview, setPreview] = useState<string | null>(null);
+  const [pendingDocument, setPendingDocument] = useState<File | null>(null);
+  const [pendingFile, setPendingFile] = useState<{ file: File; dpi: number | null } | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  const onDrop = useCallback(async (acceptedFiles: File[], fileRejections: FileRejection[]) => {
     const file = acceptedFiles[0];
     if (file) {
-      // Create preview
-      const reader = new FileReader();
-      reader.onload = () => {
-        setPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-      
-      // Upload file
-      onUpload(file);
+      // Checked and prepared by DocumentPagePicker / ImagePreflight before anything is uploaded
+      setRejection(null);
+      try {
+        if (await documentRasterService.detect(file)) {
+          setPendingDocument(file);
+        } else {
+          setPendingFile({ file, dpi: null });
+        }
+      } catch (err: unknown) {
+        console.error('Reading the dropped file failed:', err);
+        setRejection(`${file.name} could not be read${err instanceof Error ? `: ${err.message}` : '.'}`);
+      }
+      return;
     }
-  }, [onUpload]);
+
+    const rejected = fileRejections[0];
+    if (rejected) {
+      const code = rejected.errors[0]?.code;
+      setRejection(
+        code === 'file-too-large'
+          ? `${rejected.file.name} is ${formatBytes(rejected.file.size)}; files up to ${formatBytes(IMAGE_CONFIG.maxInputBytes)} are accepted.`
+          : code === 'file-invalid-type'
+            ? `${rejected.file.name} is not a JPEG, PNG, WebP, PDF or TIFF file.`
+            : rejected.errors[0]?.message || 'This file cannot be used.'
+      );
+    }
+  }, []);
+
+  const handlePages = (pages: RasterisedPage[]) => {
+    setPendingDocument(null);
+    if (pages.length > 1 && onMultiplePages) {
+      onMultiplePages(pages);
+      return;
+    }
+    setPendingFile({ file: pages[0].file, dpi: pages[0].dpi });
+  };
+
+  const handleConfirm = (file: File, scale: number) => {
+    // Show what was actually uploaded, not the original
+    const reader = new FileReader();
+    reader.onload = () => {
+      setPreview(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+
+    const dpi = pendingFile?.dpi ? pendingFile.dpi * scale : null;
+    setPendingFile(null);
+    onUpload(file, dpi);
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.webp']
+      'image/*': IMAGE_CONFIG.acceptedExtensions,
+      ...IMAGE_CONFIG.acceptedDocuments
     },
-    maxFiles: 1
+    maxFiles: 1,
+    maxSize: IMAGE_CONFIG.maxInputBytes
   });
 
+  if (pendingDocument) {
+    return (
+      <DocumentPagePicker
+        file={pendingDocument}
+        multiple={!!onMultiplePages}
+        onConfirm={handlePages}
+        onCancel={() => setPendingDocument(null)}
+      />
+    );
+  }
+
+  if (pendingFile) {
+    return (
+      <ImagePreflight
+        file={pendingFile.file}
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingFile(null)}
+      />
+    );
+  }
+
   return (
     <div className="w-full max-w-4xl mx-auto">
       <div
@@ -82,12 +155,17 @@ export default function ImageUploader({ onUpload }: ImageUploaderProps) {
                 Drag and drop your image here, or click to select
               </p>
               <p className="text-xs text-gray-500 mt-2">
-                Supported formats: JPEG, PNG, WebP (max 10MB)
+                Supported formats: JPEG, PNG, WebP, PDF and multi-page TIFF (max {formatBytes(IMAGE_CONFIG.maxInputBytes)},{' '}
+                {IMAGE_CONFIG.maxMegapixels} MP). Large photos are downscaled before upload.
               </p>
             </div>
           </div>
         )}
       </div>
+
+      {rejection && (
+        <p className="text-sm text-red-700 mt-3 text-center">{rejection}</p>
+      )}
     </div>
   );
 }
\ No newline at end of file
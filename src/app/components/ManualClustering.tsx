@@ -0,0 +1,202 @@
+// SketchToCad-Frontend/src/app/components/ManualClustering.tsx
+"use client";
+
+import { useMemo, useState } from 'react';
+import { Line } from 'react-konva';
+import { BedData } from '../types/bed/BedData';
+import { Point } from '../types/geometry/Point';
+import { pointInPolygon, polygonCentroid } from '@/utils/geometry.utils';
+import BedOverlay from './BedOverlay';
+
+interface ManualClusteringProps {
+  imageUrl?: string | null;
+  bedData: BedData[];
+  imageShape: number[];
+  bedColors: string[];
+  // Bed index -> cluster id for beds assigned directly on the sketch
+  assignments: Record<number, number>;
+  currentCluster: number;
+  clusterColor: (clusterId: number) => string;
+  clusterName: (clusterId: number) => string;
+  onAssign: (bedIndices: number[], clusterId: number | null) => void;
+  hoveredIndex: number | null;
+  onHoverBed: (index: number | null) => void;
+  maxWidth?: number;
+  maxHeight?: number;
+}
+
+type SelectionTool = 'click' | 'lasso';
+
+// Representative image-space point used to decide whether a lasso captures a bed
+const bedAnchor = (bed: BedData): Point | null => {
+  const rings = (bed.polygons || []).filter(ring => ring.length >= 3);
+  if (rings.length > 0) {
+    const largest = rings.reduce((best, ring) => ring.length > best.length ? ring : best);
+    return polygonCentroid(largest.map(([x, y]) => ({ x, y })));
+  }
+  return bed.position ? { x: bed.position.x, y: bed.position.y } : null;
+};
+
+export default function ManualClustering({
+  imageUrl,
+  bedData,
+  imageShape,
+  bedColors,
+  assignments,
+  currentCluster,
+  clusterColor,
+  clusterName,
+  onAssign,
+  hoveredIndex,
+  onHoverBed,
+  maxWidth = 800,
+  maxHeight = 600
+}: ManualClusteringProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [tool, setTool] = useState<SelectionTool>('click');
+  const [lassoPath, setLassoPath] = useState<Point[] | null>(null);
+
+  const anchors = useMemo(() => bedData.map(bedAnchor), [bedData]);
+
+  const fillColors = useMemo(
+    () => bedData.map((_, index) =>
+      assignments[index] !== undefined ? clusterColor(assignments[index]) : null
+    ),
+    [bedData, assignments, clusterColor]
+  );
+
+  const handleBedClick = (index: number, shiftKey: boolean) => {
+    if (tool !== 'click') return;
+
+    setSelected(prev => {
+      if (!shiftKey) return new Set([index]);
+
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleStagePointer = (phase: 'down' | 'move' | 'up', point: Point, shiftKey: boolean) => {
+    if (tool !== 'lasso') return;
+
+    if (phase === 'down') {
+      setLassoPath([point]);
+      return;
+    }
+
+    if (!lassoPath) return;
+
+    if (phase === 'move') {
+      setLassoPath([...lassoPath, point]);
+      return;
+    }
+
+    // Finish the lasso: shift adds to the current selection, otherwise replaces it
+    const captured = lassoPath.length >= 3
+      ? anchors.flatMap((anchor, index) => anchor && pointInPolygon(anchor, lassoPath) ? [index] : [])
+      : [];
+
+    setSelected(prev => new Set([...(shiftKey ? Array.from(prev) : []), ...captured]));
+    setLassoPath(null);
+  };
+
+  const assignSelection = (clusterId: number | null) => {
+    if (selected.size === 0) return;
+    onAssign(Array.from(selected), clusterId);
+    setSelected(new Set());
+  };
+
+  const assignedCount = Object.keys(assignments).length;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+          {(['click', 'lasso'] as SelectionTool[]).map(option => (
+            <button
+              key={option}
+              onClick={() => {
+                setTool(option);
+                setLassoPath(null);
+              }}
+              className={`px-3 py-1 text-sm font-medium ${
+                tool === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'click' ? 'Click Select' : 'Lasso'}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => assignSelection(currentCluster)}
+          disabled={selected.size === 0}
+          className={`px-3 py-1 rounded-lg text-sm font-medium ${
+            selected.size === 0
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              : 'bg-green-600 text-white hover:bg-green-700'
+          }`}
+        >
+          Assign {selected.size} to {clusterName(currentCluster)}
+        </button>
+
+        <button
+          onClick={() => assignSelection(null)}
+          disabled={selected.size === 0}
+          className={`px-3 py-1 rounded-lg text-sm font-medium ${
+            selected.size === 0
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              : 'bg-yellow-600 text-white hover:bg-yellow-700'
+          }`}
+        >
+          Unassign
+        </button>
+
+        <button
+          onClick={() => setSelected(new Set())}
+          disabled={selected.size === 0}
+          className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-gray-50 disabled:text-gray-400"
+        >
+          Clear Selection
+        </button>
+      </div>
+
+      <BedOverlay
+        imageUrl={imageUrl}
+        bedData={bedData}
+        imageShape={imageShape}
+        bedColors={bedColors}
+        highlightedIndex={hoveredIndex}
+        onHoverBed={onHoverBed}
+        maxWidth={maxWidth}
+        maxHeight={maxHeight}
+        fillColors={fillColors}
+        selectedIndices={selected}
+        onBedClick={handleBedClick}
+        onStagePointer={handleStagePointer}
+        renderOverlay={(scale) => lassoPath && lassoPath.length > 1 && (
+          <Line
+            points={lassoPath.flatMap(point => [point.x * scale, point.y * scale])}
+            stroke={clusterColor(currentCluster)}
+            strokeWidth={2}
+            dash={[6, 4]}
+            closed={true}
+            fill={`${clusterColor(currentCluster)}22`}
+          />
+        )}
+      />
+
+      <p className="text-xs text-gray-500 mt-2">
+        {tool === 'click'
+          ? 'Click a bed to select it, shift-click to add or remove beds from the selection.'
+          : 'Drag around beds to lasso them, hold shift to add to the selection.'}
+        {' '}{selected.size} selected, {assignedCount} assigned on the sketch.
+      </p>
+    </div>
+  );
+}
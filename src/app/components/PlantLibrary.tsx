@@ -0,0 +1,309 @@
+// SketchToCad-Frontend/src/app/components/PlantLibrary.tsx
+"use client";
+
+import { ChangeEvent, useState } from 'react';
+import { PlantSpecies } from '../types/plants/PlantSpecies';
+import { plantLibraryService } from '@/services/plant-library.service';
+import {
+  createPlantId,
+  densityFromSpacing,
+  parsePlantsCsv,
+  parsePlantsJson,
+  plantsToCsv,
+  plantsToJson
+} from '@/utils/plant-library.utils';
+import { toLayerName } from '@/utils/cluster.utils';
+import { formatPrice } from '@/utils/estimate.utils';
+import { ESTIMATE_CONFIG } from '@/config/estimate.config';
+
+interface PlantLibraryProps {
+  plants: PlantSpecies[];
+  onChange: (plants: PlantSpecies[]) => void;
+  onClose: () => void;
+}
+
+const emptyPlant = (): PlantSpecies => ({
+  id: createPlantId(),
+  name: '',
+  latin_name: '',
+  color: '#4CAF50',
+  spacing_m: 0.5,
+  layer_name: '',
+  unit_price: null,
+  updated_at: new Date().toISOString()
+});
+
+const download = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export default function PlantLibrary({ plants, onChange, onClose }: PlantLibraryProps) {
+  const [draft, setDraft] = useState<PlantSpecies | null>(null);
+  const [query, setQuery] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visiblePlants = plants.filter(plant =>
+    !normalizedQuery
+    || plant.name.toLowerCase().includes(normalizedQuery)
+    || plant.latin_name.toLowerCase().includes(normalizedQuery)
+  );
+
+  const reload = async () => onChange(await plantLibraryService.listPlants());
+
+  const report = (text: string, isError = false) => setMessage({ text, isError });
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      report('Give the plant a name.', true);
+      return;
+    }
+
+    try {
+      await plantLibraryService.savePlant({
+        ...draft,
+        name: draft.name.trim(),
+        latin_name: draft.latin_name.trim(),
+        layer_name: toLayerName(draft.layer_name) || toLayerName(draft.name)
+      });
+      setDraft(null);
+      setMessage(null);
+      await reload();
+    } catch (error) {
+      report(`Could not save plant: ${error instanceof Error ? error.message : error}`, true);
+    }
+  };
+
+  const deletePlant = async (plant: PlantSpecies) => {
+    if (!confirm(`Delete ${plant.name} from the library?`)) return;
+
+    try {
+      await plantLibraryService.deletePlant(plant.id);
+      if (draft?.id === plant.id) setDraft(null);
+      await reload();
+    } catch (error) {
+      report(`Could not delete plant: ${error instanceof Error ? error.message : error}`, true);
+    }
+  };
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const { plants: imported, errors } = file.name.toLowerCase().endsWith('.csv')
+        ? parsePlantsCsv(text)
+        : parsePlantsJson(text);
+
+      await plantLibraryService.importPlants(imported);
+      await reload();
+
+      const skipped = errors.length > 0
+        ? ` Skipped ${errors.length}: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '; …' : ''}`
+        : '';
+      report(`Imported ${imported.length} plant${imported.length === 1 ? '' : 's'}.${skipped}`, errors.length > 0);
+    } catch (error) {
+      report(`Import failed: ${error instanceof Error ? error.message : error}`, true);
+    }
+  };
+
+  const exportAs = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      download(plantsToJson(plants), 'application/json', `plant-library-${stamp}.json`);
+    } else {
+      download(plantsToCsv(plants), 'text/csv', `plant-library-${stamp}.csv`);
+    }
+  };
+
+  const density = draft ? densityFromSpacing(draft.spacing_m) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h3 className="text-xl font-semibold">Plant Library</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800" title="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b bg-gray-50">
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search by name or Latin name"
+            className="flex-1 min-w-[12rem] px-3 py-1 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={() => setDraft(emptyPlant())}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Add Plant
+          </button>
+          <label className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-white cursor-pointer">
+            Import JSON/CSV
+            <input type="file" accept=".json,.csv,application/json,text/csv" onChange={importFile} className="hidden" />
+          </label>
+          <button
+            onClick={() => exportAs('json')}
+            disabled={plants.length === 0}
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-white disabled:text-gray-400"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => exportAs('csv')}
+            disabled={plants.length === 0}
+            className="px-3 py-1 rounded-lg text-sm font-medium border border-gray-300 hover:bg-white disabled:text-gray-400"
+          >
+            Export CSV
+          </button>
+        </div>
+
+        {message && (
+          <p className={`px-6 py-2 text-sm ${message.isError ? 'text-red-700 bg-red-50' : 'text-green-700 bg-green-50'}`}>
+            {message.text}
+          </p>
+        )}
+
+        {draft && (
+          <div className="px-6 py-4 border-b grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+            <label className="flex flex-col">
+              <span className="font-medium mb-1">Name</span>
+              <input
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="flex flex-col">
+              <span className="font-medium mb-1">Latin name</span>
+              <input
+                value={draft.latin_name}
+                onChange={e => setDraft({ ...draft, latin_name: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded-lg italic"
+              />
+            </label>
+            <label className="flex flex-col">
+              <span className="font-medium mb-1">Colour</span>
+              <input
+                type="color"
+                value={draft.color.toLowerCase()}
+                onChange={e => setDraft({ ...draft, color: e.target.value.toUpperCase() })}
+                className="h-8 w-full border border-gray-300 rounded-lg bg-white"
+              />
+            </label>
+            <label className="flex flex-col">
+              <span className="font-medium mb-1">Spacing (m)</span>
+              <input
+                type="number"
+                min={0.01}
+                step={0.05}
+                value={draft.spacing_m}
+                onChange={e => setDraft({ ...draft, spacing_m: Number(e.target.value) })}
+                className="px-2 py-1 border border-gray-300 rounded-lg"
+              />
+              <span className="text-xs text-gray-500 mt-1">
+                {density !== null ? `≈ ${density} plants/m²` : 'Enter a positive spacing'}
+              </span>
+            </label>
+            <label className="flex flex-col">
+              <span className="font-medium mb-1">Unit price ({ESTIMATE_CONFIG.currency})</span>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={draft.unit_price ?? ''}
+                onChange={e => setDraft({ ...draft, unit_price: e.target.value === '' ? null : Number(e.target.value) })}
+                placeholder="Not priced"
+                className="px-2 py-1 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="flex flex-col">
+              <span className="font-medium mb-1">CAD layer</span>
+              <input
+                value={draft.layer_name}
+                onChange={e => setDraft({ ...draft, layer_name: e.target.value })}
+                placeholder={toLayerName(draft.name) || 'From name'}
+                className="px-2 py-1 border border-gray-300 rounded-lg font-mono"
+              />
+            </label>
+            <div className="flex items-end space-x-2">
+              <button
+                onClick={saveDraft}
+                disabled={density === null}
+                className="flex-1 px-3 py-1 rounded-lg font-medium bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-300 disabled:text-gray-500"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="flex-1 px-3 py-1 rounded-lg font-medium border border-gray-300 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-6 py-3">
+          {plants.length === 0 ? (
+            <p className="text-sm text-gray-500 py-6 text-center">
+              The library is empty. Add plants or import a JSON/CSV file.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium">Plant</th>
+                  <th className="py-2 font-medium">Spacing</th>
+                  <th className="py-2 font-medium">Price</th>
+                  <th className="py-2 font-medium">Layer</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visiblePlants.map(plant => (
+                  <tr key={plant.id} className="border-b border-gray-100">
+                    <td className="py-2">
+                      <div className="flex items-center space-x-2">
+                        <span className="w-4 h-4 rounded border border-gray-300 flex-shrink-0" style={{ backgroundColor: plant.color }}></span>
+                        <div>
+                          <p className="font-medium">{plant.name}</p>
+                          {plant.latin_name && <p className="text-xs text-gray-500 italic">{plant.latin_name}</p>}
+                        </div>
+                      </div>
+                    </td>
+                    <td className="py-2">{plant.spacing_m} m</td>
+                    <td className="py-2">{plant.unit_price != null ? formatPrice(plant.unit_price, ESTIMATE_CONFIG.currency) : '–'}</td>
+                    <td className="py-2 font-mono text-xs">{plant.layer_name}</td>
+                    <td className="py-2 text-right space-x-2 whitespace-nowrap">
+                      <button onClick={() => setDraft(plant)} className="text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                      <button onClick={() => deletePlant(plant)} className="text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+// SketchToCad-Frontend/src/app/components/ProcessingStatus.tsx
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { SagaStatus, SagaStep } from '@/services/api.service';
+
+interface ProcessingStatusProps {
+  status: SagaStatus;
+}
+
+const RUNNING_STATES = ['running', 'in_progress', 'started', 'compensating'];
+const FAILED_STATES = ['failed', 'error'];
+const COMPLETED_STATES = ['completed', 'succeeded', 'success'];
+
+const formatStepName = (stepName: string) => {
+  const words = stepName.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+};
+
+// The current step counts as running until it reports a duration, whatever status string it uses
+const isRunningStep = (status: SagaStatus, step: SagaStep) =>
+  RUNNING_STATES.includes(step.status) ||
+  (step.step_name === status.current_step && step.duration_ms === null && !FAILED_STATES.includes(step.status));
+
+export default function ProcessingStatus({ status }: ProcessingStatusProps) {
+  const [now, setNow] = useState(() => Date.now());
+  // Steps only report a duration once finished, so remember when each was first seen running
+  const runningSinceRef = useRef<Record<string, number>>({});
+
+  const isStepRunning = (step: SagaStep) => isRunningStep(status, step);
+
+  const hasRunningStep = status.steps.some(isStepRunning);
+
+  useEffect(() => {
+    status.steps.forEach(step => {
+      if (isRunningStep(status, step) && !runningSinceRef.current[step.step_name]) {
+        runningSinceRef.current[step.step_name] = Date.now();
+      }
+    });
+  }, [status]);
+
+  useEffect(() => {
+    if (!hasRunningStep) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningStep]);
+
+  const elapsedFor = (step: SagaStep): number | null => {
+    if (step.duration_ms !== null) return step.duration_ms;
+    const since = runningSinceRef.current[step.step_name];
+    return isStepRunning(step) && since ? Math.max(0, now - since) : null;
+  };
+
+  const isSagaFailed = status.status === 'failed' || status.status === 'compensated';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 max-w-2xl mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Workflow Progress</h3>
+        <span className={`px-3 py-1 rounded-lg text-sm font-medium ${
+          isSagaFailed
+            ? 'bg-red-100 text-red-800'
+            : status.status === 'completed'
+              ? 'bg-green-100 text-green-800'
+              : 'bg-blue-100 text-blue-800'
+        }`}>
+          {formatStepName(status.status)}
+        </span>
+      </div>
+
+      {status.steps.length === 0 ? (
+        <p className="text-sm text-gray-500">Waiting for the first saga step to start...</p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-3 space-y-4">
+          {status.steps.map((step, index) => {
+            const isRunning = isStepRunning(step);
+            const isFailed = FAILED_STATES.includes(step.status);
+            const isCompleted = COMPLETED_STATES.includes(step.status);
+            const elapsed = elapsedFor(step);
+            const errorMessage = step.error_message
+              || (isFailed && index === status.steps.length - 1 ? status.error_message : null);
+
+            return (
+              <li key={`${step.step_name}_${index}`} className="ml-6">
+                <span className={`absolute -left-[9px] flex items-center justify-center w-4 h-4 rounded-full border-2 ${
+                  isFailed
+                    ? 'bg-red-500 border-red-500'
+                    : isCompleted
+                      ? 'bg-green-500 border-green-500'
+                      : isRunning
+                        ? 'bg-white border-blue-600 animate-pulse'
+                        : 'bg-white border-gray-300'
+                }`}></span>
+
+                <div className={`rounded-lg px-3 py-2 ${
+                  isRunning ? 'bg-blue-50 border border-blue-200' : isFailed ? 'bg-red-50 border border-red-200' : ''
+                }`}>
+                  <div className="flex items-center justify-between">
+                    <span className={`text-sm font-medium ${
+                      isFailed ? 'text-red-800' : isRunning ? 'text-blue-800' : 'text-gray-900'
+                    }`}>
+                      {formatStepName(step.step_name)}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {formatStepName(step.status)}
+                      {elapsed !== null && ` · ${formatDuration(elapsed)}`}
+                    </span>
+                  </div>
+
+                  {errorMessage && (
+                    <p className="text-sm text-red-700 mt-1">{errorMessage}</p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {isSagaFailed && status.error_message && !status.steps.some(step => FAILED_STATES.includes(step.status)) && (
+        <p className="text-sm text-red-700 mt-4">{status.error_message}</p>
+      )}
+
+      <div className="flex justify-between text-xs text-gray-500 mt-4 pt-3 border-t border-gray-100">
+        <span>Saga ID: {status.saga_id}</span>
+        {status.total_duration_ms !== null && (
+          <span>Total: {formatDuration(status.total_duration_ms)}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+// SketchToCad-Frontend/src/app/components/QuantityEstimate.tsx
+"use client";
+
+import { useEffect, useState } from 'react';
+import { ClusterStats } from '../types/clustering/ClusterStats';
+import { AreaUnit, ScaleCalibration } from '../types/measurement/ScaleCalibration';
+import { PlantSpecies } from '../types/plants/PlantSpecies';
+import { ESTIMATE_CONFIG } from '@/config/estimate.config';
+import { apiService } from '@/services/api.service';
+import { plantLibraryService } from '@/services/plant-library.service';
+import {
+  buildEstimate,
+  EstimateInput,
+  estimateToCsv,
+  estimateToHtml,
+  findClusterPlant,
+  formatPrice
+} from '@/utils/estimate.utils';
+import { AREA_UNIT_LABELS, convertArea } from '@/utils/measurement.utils';
+
+interface QuantityEstimateProps {
+  clusters: ClusterStats[];
+  scaleCalibration: ScaleCalibration | null;
+  areaUnit: AreaUnit;
+}
+
+// Values typed into the table, kept as text until they parse
+type Overrides = Record<number, { planting_density?: string; unit_price?: string }>;
+
+const parseAmount = (value: string | undefined): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value.trim() === '') return null;
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export default function QuantityEstimate({ clusters, scaleCalibration, areaUnit }: QuantityEstimateProps) {
+  const [plants, setPlants] = useState<PlantSpecies[]>([]);
+  const [overrides, setOverrides] = useState<Overrides>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!plantLibraryService.isAvailable()) return;
+    plantLibraryService.listPlants()
+      .then(setPlants)
+      .catch(error => console.warn('Failed to load plant library for the estimate:', error));
+  }, []);
+
+  if (!scaleCalibration) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h3 className="text-xl font-semibold mb-2">Plant Quantities</h3>
+        <p className="text-gray-500">Calibrate the scale above to estimate plant quantities and cost.</p>
+      </div>
+    );
+  }
+
+  const currency = ESTIMATE_CONFIG.currency;
+  const plantOf = (cluster: ClusterStats) => findClusterPlant(cluster, plants);
+
+  // Typed values win over the cluster's density and the library price
+  const inputs = Object.fromEntries(clusters.map(cluster => {
+    const density = parseAmount(overrides[cluster.cluster_id]?.planting_density);
+    const price = parseAmount(overrides[cluster.cluster_id]?.unit_price);
+    const input: EstimateInput = {
+      planting_density: density !== undefined ? density : cluster.planting_density ?? null,
+      unit_price: price !== undefined ? price : plantOf(cluster)?.unit_price ?? null
+    };
+    return [cluster.cluster_id, input];
+  }));
+  const estimate = buildEstimate(clusters, scaleCalibration, inputs);
+
+  const setOverride = (clusterId: number, field: 'planting_density' | 'unit_price', value: string) => {
+    setOverrides(current => ({ ...current, [clusterId]: { ...current[clusterId], [field]: value } }));
+  };
+
+  // Prices of library plants are kept in the library for the next project
+  const savePrice = async (cluster: ClusterStats) => {
+    const plant = plantOf(cluster);
+    const price = parseAmount(overrides[cluster.cluster_id]?.unit_price);
+    if (!plant || price === undefined || price === (plant.unit_price ?? null)) return;
+
+    try {
+      await plantLibraryService.savePlant({ ...plant, unit_price: price });
+      setPlants(await plantLibraryService.listPlants());
+      setOverrides(current => ({ ...current, [cluster.cluster_id]: { ...current[cluster.cluster_id], unit_price: undefined } }));
+      setMessage(`Saved the price of ${plant.name} to the plant library.`);
+    } catch (error) {
+      setMessage(`Could not save price: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const downloadCsv = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    apiService.downloadFile(
+      new Blob([estimateToCsv(estimate, areaUnit, currency)], { type: 'text/csv' }),
+      `plant-estimate-${stamp}.csv`
+    );
+  };
+
+  const print = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setMessage('Allow pop-ups for this site to print the estimate.');
+      return;
+    }
+    printWindow.document.write(estimateToHtml(estimate, areaUnit, currency, 'Plant quantities and cost estimate'));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-semibold">Plant Quantities</h3>
+        <div className="flex space-x-2">
+          <button
+            onClick={downloadCsv}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+          >
+            Download CSV
+          </button>
+          <button
+            onClick={print}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+          >
+            Print
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Cluster</th>
+              <th className="py-2 font-medium text-right">Area ({AREA_UNIT_LABELS[areaUnit]})</th>
+              <th className="py-2 font-medium text-right">Plants/m²</th>
+              <th className="py-2 font-medium text-right">Plants</th>
+              <th className="py-2 font-medium text-right">Unit price ({currency})</th>
+              <th className="py-2 font-medium text-right">Subtotal</th>
+            </tr>
+          </thead>
+          <tbody>
+            {clusters.map((cluster, index) => {
+              const row = estimate.rows[index];
+              const override = overrides[cluster.cluster_id] || {};
+              const plant = plantOf(cluster);
+
+              return (
+                <tr key={cluster.cluster_id} className="border-b border-gray-100">
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center space-x-2">
+                      {cluster.color && <span className="w-3 h-3 rounded flex-shrink-0" style={{ backgroundColor: cluster.color }}></span>}
+                      <div>
+                        <p className="font-medium">{row.cluster_name}</p>
+                        {row.species && <p className="text-xs text-gray-600 italic">{row.species}</p>}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    {convertArea(row.area_m2, areaUnit).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={override.planting_density ?? row.planting_density ?? ''}
+                      onChange={e => setOverride(cluster.cluster_id, 'planting_density', e.target.value)}
+                      placeholder="–"
+                      className="w-20 px-2 py-0.5 border border-gray-300 rounded text-right"
+                    />
+                  </td>
+                  <td className="py-2 pr-2 text-right font-medium">
+                    {row.plant_count?.toLocaleString() ?? '–'}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={override.unit_price ?? row.unit_price ?? ''}
+                      onChange={e => setOverride(cluster.cluster_id, 'unit_price', e.target.value)}
+                      onBlur={() => savePrice(cluster)}
+                      placeholder="–"
+                      title={plant ? `Saved to ${plant.name} in the plant library` : 'Only used for this estimate'}
+                      className="w-24 px-2 py-0.5 border border-gray-300 rounded text-right"
+                    />
+                  </td>
+                  <td className="py-2 text-right font-medium">
+                    {row.subtotal !== null ? formatPrice(row.subtotal, currency) : '–'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold">
+              <td className="pt-3" colSpan={3}>Total</td>
+              <td className="pt-3 pr-2 text-right">{estimate.total_plants.toLocaleString()}</td>
+              <td></td>
+              <td className="pt-3 text-right">{formatPrice(estimate.total_cost, currency)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {estimate.incomplete_rows > 0 && (
+        <p className="text-sm text-yellow-800 mt-3">
+          {estimate.incomplete_rows} cluster{estimate.incomplete_rows === 1 ? ' has' : 's have'} no density or
+          price yet and {estimate.incomplete_rows === 1 ? 'is' : 'are'} left out of the total cost.
+        </p>
+      )}
+      {message && <p className="text-sm text-gray-600 mt-2">{message}</p>}
+    </div>
+  );
+}
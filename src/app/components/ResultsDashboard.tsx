@@ -3,13 +3,19 @@
 import { useState } from 'react';
 import { ClusteringResult } from '../types/clustering/ClusteringResult';
 import { ProcessingResult } from '../types/processing/ProcessingResult';
+import { AreaUnit, ScaleCalibration } from '../types/measurement/ScaleCalibration';
 import API_CONFIG from '@/config/api.config';
+import { formatArea, pixelAreaIn } from '@/utils/measurement.utils';
+import QuantityEstimate from './QuantityEstimate';
 
 interface ResultsDashboardProps {
   clusteringResult: ClusteringResult;
   processingResult: ProcessingResult;
   onReset: () => void;
   onExport?: (exportType: 'summary' | 'detailed') => void;
+  // Areas are in pixels until the saga is calibrated
+  scaleCalibration: ScaleCalibration | null;
+  areaUnit: AreaUnit;
 }
 
 const CLUSTER_COLORS = [
@@ -27,7 +33,9 @@ export default function ResultsDashboard({
   clusteringResult,
   processingResult,
   onReset,
-  onExport
+  onExport,
+  scaleCalibration,
+  areaUnit
 }: ResultsDashboardProps) {
   const [selectedCluster, setSelectedCluster] = useState<number | null>(null);
   const [showStatistics, setShowStatistics] = useState(true);
@@ -36,6 +44,16 @@ export default function ResultsDashboard({
     const results = {
       clustering_result: clusteringResult,
       processing_result: processingResult,
+      // Areas above stay in image pixels; these are the same in real-world units
+      measurement: scaleCalibration ? {
+        scale_calibration: scaleCalibration,
+        area_unit: areaUnit,
+        cluster_areas: clusteringResult.statistics.cluster_details.map(cluster => ({
+          cluster_id: cluster.cluster_id,
+          total_area: pixelAreaIn(cluster.total_area, scaleCalibration, areaUnit),
+          average_area: pixelAreaIn(cluster.average_area, scaleCalibration, areaUnit)
+        }))
+      } : null,
       timestamp: new Date().toISOString()
     };
 
@@ -204,6 +222,9 @@ export default function ResultsDashboard({
             {clusteringResult.statistics.cluster_details.map((cluster, index) => {
               const colorScheme = CLUSTER_COLORS[index % CLUSTER_COLORS.length];
               const isSelected = selectedCluster === cluster.cluster_id;
+              // Designer-picked colours win over the fallback palette
+              const swatchClass = cluster.color ? '' : colorScheme.bg;
+              const swatchStyle = cluster.color ? { backgroundColor: cluster.color } : undefined;
 
               return (
                 <div
@@ -219,14 +240,19 @@ export default function ResultsDashboard({
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-3">
-                      <div className={`w-4 h-4 rounded ${colorScheme.bg}`}></div>
-                      <h4 className="font-semibold">
-                        Cluster {cluster.cluster_id} ({colorScheme.name})
-                      </h4>
+                      <div className={`w-4 h-4 rounded ${swatchClass}`} style={swatchStyle}></div>
+                      <div>
+                        <h4 className="font-semibold">
+                          {cluster.cluster_name || `Cluster ${cluster.cluster_id} (${colorScheme.name})`}
+                        </h4>
+                        {cluster.species && (
+                          <p className="text-sm text-gray-600 italic">{cluster.species}</p>
+                        )}
+                      </div>
                     </div>
                     <div className="flex items-center space-x-4 text-sm text-gray-600">
                       <span>{cluster.bed_count} beds</span>
-                      <span>{cluster.total_area.toLocaleString()} px</span>
+                      <span>{formatArea(cluster.total_area, scaleCalibration, areaUnit)}</span>
                       <svg
                         className={`w-5 h-5 transition-transform ${isSelected ? 'rotate-180' : ''}`}
                         fill="none"
@@ -247,11 +273,11 @@ export default function ResultsDashboard({
                         </div>
                         <div>
                           <p className="text-sm text-gray-600">Total Area</p>
-                          <p className="font-semibold">{cluster.total_area.toLocaleString()} px</p>
+                          <p className="font-semibold">{formatArea(cluster.total_area, scaleCalibration, areaUnit)}</p>
                         </div>
                         <div>
                           <p className="text-sm text-gray-600">Average Area</p>
-                          <p className="font-semibold">{cluster.average_area.toLocaleString()} px</p>
+                          <p className="font-semibold">{formatArea(cluster.average_area, scaleCalibration, areaUnit)}</p>
                         </div>
                         <div>
                           <p className="text-sm text-gray-600">Percentage</p>
@@ -261,13 +287,31 @@ export default function ResultsDashboard({
                         </div>
                       </div>
 
+                      {(cluster.layer_name || cluster.planting_density) && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                          {cluster.layer_name && (
+                            <div>
+                              <p className="text-sm text-gray-600">CAD Layer</p>
+                              <p className="font-semibold font-mono">{cluster.layer_name}</p>
+                            </div>
+                          )}
+                          {cluster.planting_density && (
+                            <div>
+                              <p className="text-sm text-gray-600">Planting Density</p>
+                              <p className="font-semibold">{cluster.planting_density} plants/m²</p>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
                       <div>
                         <p className="text-sm text-gray-600 mb-2">Bed IDs:</p>
                         <div className="flex flex-wrap gap-1">
                           {cluster.bed_ids.map(bedId => (
                             <span
                               key={bedId}
-                              className={`px-2 py-1 text-xs rounded ${colorScheme.bg} text-white`}
+                              className={`px-2 py-1 text-xs rounded ${swatchClass} text-white`}
+                              style={swatchStyle}
                             >
                               {bedId}
                             </span>
@@ -287,6 +331,15 @@ export default function ResultsDashboard({
         )}
       </div>
 
+      {/* Bill of quantities */}
+      {clusteringResult.statistics.cluster_details.length > 0 && (
+        <QuantityEstimate
+          clusters={clusteringResult.statistics.cluster_details}
+          scaleCalibration={scaleCalibration}
+          areaUnit={areaUnit}
+        />
+      )}
+
       {/* Summary Card */}
       <div className="bg-gradient-to-r from-blue-50 to-green-50 rounded-lg shadow-lg p-6 border border-blue-200">
         <div className="flex items-center justify-between">
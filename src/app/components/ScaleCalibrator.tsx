@@ -0,0 +1,299 @@
+// SketchToCad-Frontend/src/app/components/ScaleCalibrator.tsx
+"use client";
+
+import { useRef, useState } from 'react';
+import { Point } from '../types/geometry/Point';
+import { AreaUnit, LengthUnit, ScaleCalibration } from '../types/measurement/ScaleCalibration';
+import {
+  AREA_UNIT_LABELS,
+  calibrationFromDrawingScale,
+  calibrationFromLine,
+  describeCalibration,
+  METRES_PER_UNIT,
+  parseDrawingScale
+} from '@/utils/measurement.utils';
+
+interface ScaleCalibratorProps {
+  imageUrl?: string | null;
+  // Resolution the image was rendered at when it came from a PDF or TIFF page
+  sourceDpi: number | null;
+  calibration: ScaleCalibration | null;
+  areaUnit: AreaUnit;
+  onCalibrationChange: (calibration: ScaleCalibration | null) => void;
+  onAreaUnitChange: (unit: AreaUnit) => void;
+}
+
+type CalibrationMethod = ScaleCalibration['method'];
+
+// Fractions of the displayed image, so the line survives resizing
+const DEFAULT_LINE: [Point, Point] = [{ x: 0.25, y: 0.5 }, { x: 0.75, y: 0.5 }];
+
+export default function ScaleCalibrator({
+  imageUrl,
+  sourceDpi,
+  calibration,
+  areaUnit,
+  onCalibrationChange,
+  onAreaUnitChange
+}: ScaleCalibratorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [method, setMethod] = useState<CalibrationMethod>('line');
+  const [line, setLine] = useState<[Point, Point]>(DEFAULT_LINE);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [length, setLength] = useState('');
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>('m');
+  const [scaleText, setScaleText] = useState('');
+  const [dpiText, setDpiText] = useState('');
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<number | null>(null);
+
+  const open = () => {
+    setMethod(calibration?.method ?? (imageUrl && !sourceDpi ? 'line' : 'drawing_scale'));
+    setLength(calibration?.line_length ? String(calibration.line_length) : '');
+    setLengthUnit(calibration?.line_unit ?? 'm');
+    setScaleText(calibration?.scale_denominator ? `1:${calibration.scale_denominator}` : '');
+    setDpiText(String(calibration?.dpi ?? (sourceDpi ? Math.round(sourceDpi) : '')));
+    setIsOpen(true);
+  };
+
+  const linePixels = imageSize
+    ? Math.hypot((line[1].x - line[0].x) * imageSize.width, (line[1].y - line[0].y) * imageSize.height)
+    : 0;
+
+  const candidate = method === 'line'
+    ? calibrationFromLine(linePixels, Number(length.replace(',', '.')), lengthUnit)
+    : calibrationFromDrawingScale(parseDrawingScale(scaleText) ?? 0, Number(dpiText));
+
+  const toFraction = (event: React.PointerEvent): Point | null => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return null;
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height))
+    };
+  };
+
+  const startDrag = (index: number) => (event: React.PointerEvent) => {
+    event.stopPropagation();
+    (event.target as Element).setPointerCapture(event.pointerId);
+    dragRef.current = index;
+  };
+
+  const onDrag = (event: React.PointerEvent) => {
+    const index = dragRef.current;
+    const point = toFraction(event);
+    if (index === null || !point) return;
+    setLine(current => (index === 0 ? [point, current[1]] : [current[0], point]));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  // A click on the image moves the nearer end of the line there
+  const placeEnd = (event: React.PointerEvent) => {
+    const point = toFraction(event);
+    if (!point) return;
+    setLine(current => {
+      const nearFirst = Math.hypot(point.x - current[0].x, point.y - current[0].y)
+        <= Math.hypot(point.x - current[1].x, point.y - current[1].y);
+      return nearFirst ? [point, current[1]] : [current[0], point];
+    });
+  };
+
+  const apply = () => {
+    if (!candidate) return;
+    onCalibrationChange(candidate);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <span className="font-medium text-gray-700">Scale: </span>
+          {calibration ? (
+            <span className="text-gray-900">{describeCalibration(calibration)}</span>
+          ) : (
+            <span className="text-gray-500">not calibrated, areas are in image pixels</span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+            {(Object.keys(AREA_UNIT_LABELS) as AreaUnit[]).map(unit => (
+              <button
+                key={unit}
+                onClick={() => onAreaUnitChange(unit)}
+                disabled={!calibration}
+                className={`px-3 py-1 ${
+                  areaUnit === unit && calibration ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                } disabled:text-gray-400 disabled:hover:bg-white`}
+              >
+                {AREA_UNIT_LABELS[unit]}
+              </button>
+            ))}
+          </div>
+          {!isOpen && (
+            <button onClick={open} className="px-3 py-1 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100">
+              {calibration ? 'Recalibrate' : 'Calibrate scale'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+            {([['line', 'Reference line'], ['drawing_scale', 'Drawing scale']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setMethod(key)}
+                className={`px-3 py-1 ${method === key ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {method === 'line' ? (
+            imageUrl ? (
+              <div className="flex flex-col lg:flex-row gap-4">
+                <div className="flex-1 flex items-center justify-center bg-gray-100 rounded-lg p-2 overflow-hidden">
+                  <div
+                    ref={containerRef}
+                    className="relative inline-block select-none touch-none cursor-crosshair"
+                    onPointerDown={placeEnd}
+                    onPointerMove={onDrag}
+                    onPointerUp={endDrag}
+                    onPointerCancel={endDrag}
+                  >
+                    <img
+                      src={imageUrl}
+                      alt="Uploaded sketch"
+                      draggable={false}
+                      onLoad={e => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                      className="block max-w-full max-h-[50vh]"
+                    />
+                    <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                      <line
+                        x1={line[0].x}
+                        y1={line[0].y}
+                        x2={line[1].x}
+                        y2={line[1].y}
+                        stroke="#dc2626"
+                        strokeWidth={2}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    </svg>
+                    {line.map((end, index) => (
+                      <div
+                        key={index}
+                        onPointerDown={startDrag(index)}
+                        className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-red-600 cursor-move"
+                        style={{ left: `${end.x * 100}%`, top: `${end.y * 100}%` }}
+                      ></div>
+                    ))}
+                  </div>
+                </div>
+                <div className="lg:w-64 space-y-3">
+                  <p className="text-gray-600">
+                    Drag the ends of the line onto a dimension you know, such as a labelled wall or the scale bar.
+                  </p>
+                  <label className="block">
+                    <span className="font-medium text-gray-700">The line measures</span>
+                    <div className="flex gap-2 mt-1">
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={length}
+                        onChange={e => setLength(e.target.value)}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded-lg"
+                      />
+                      <select
+                        value={lengthUnit}
+                        onChange={e => setLengthUnit(e.target.value as LengthUnit)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg"
+                      >
+                        {(Object.keys(METRES_PER_UNIT) as LengthUnit[]).map(unit => (
+                          <option key={unit} value={unit}>{unit}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </label>
+                  <p className="text-xs text-gray-500">Line length: {Math.round(linePixels).toLocaleString()} px</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-gray-600">
+                The uploaded image is not kept after a reload. Enter the drawing scale instead, or start over
+                with the sketch to draw a reference line.
+              </p>
+            )
+          ) : (
+            <div className="flex flex-wrap gap-4">
+              <label className="block">
+                <span className="font-medium text-gray-700">Drawing scale</span>
+                <input
+                  type="text"
+                  placeholder="1:100"
+                  value={scaleText}
+                  onChange={e => setScaleText(e.target.value)}
+                  className="mt-1 block w-28 px-2 py-1 border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="block">
+                <span className="font-medium text-gray-700">Image resolution (DPI)</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={dpiText}
+                  onChange={e => setDpiText(e.target.value)}
+                  className="mt-1 block w-28 px-2 py-1 border border-gray-300 rounded-lg"
+                />
+                <span className="block text-xs text-gray-500 mt-1">
+                  {sourceDpi
+                    ? 'From the PDF or TIFF page this sketch was rendered from.'
+                    : 'The scan resolution; photos have none, use a reference line for them.'}
+                </span>
+              </label>
+            </div>
+          )}
+
+          <div className="flex justify-end items-center space-x-3">
+            {candidate && (
+              <span className="text-gray-600">
+                {candidate.pixels_per_metre.toLocaleString(undefined, { maximumFractionDigits: 1 })} px/m
+              </span>
+            )}
+            {calibration && (
+              <button
+                onClick={() => {
+                  onCalibrationChange(null);
+                  setIsOpen(false);
+                }}
+                className="px-3 py-1 text-red-700 hover:text-red-900"
+              >
+                Remove calibration
+              </button>
+            )}
+            <button
+              onClick={() => setIsOpen(false)}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={apply}
+              disabled={!candidate}
+              className="px-4 py-1 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
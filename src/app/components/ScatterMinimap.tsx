@@ -0,0 +1,77 @@
+// SketchToCad-Frontend/src/app/components/ScatterMinimap.tsx
+"use client";
+
+import { Stage, Layer, Shape, Rect } from 'react-konva';
+import { KonvaEventObject } from 'konva/lib/Node';
+import { ViewTransform } from '../types/geometry/ViewTransform';
+
+interface ScatterMinimapProps {
+  // Point positions in unzoomed canvas coordinates
+  xs: number[];
+  ys: number[];
+  colors: string[];
+  canvasWidth: number;
+  canvasHeight: number;
+  view: ViewTransform;
+  // Called with the unzoomed canvas position that should become the view centre
+  onNavigate: (x: number, y: number) => void;
+  width?: number;
+}
+
+export default function ScatterMinimap({
+  xs,
+  ys,
+  colors,
+  canvasWidth,
+  canvasHeight,
+  view,
+  onNavigate,
+  width = 160
+}: ScatterMinimapProps) {
+  const ratio = width / canvasWidth;
+  const height = Math.round(canvasHeight * ratio);
+
+  // Visible part of the unzoomed canvas
+  const viewport = {
+    x: -view.x / view.scale,
+    y: -view.y / view.scale,
+    width: canvasWidth / view.scale,
+    height: canvasHeight / view.scale
+  };
+
+  const handlePointer = (e: KonvaEventObject<MouseEvent>) => {
+    // Follow the pointer while the button is held, jump on a plain click
+    if (e.type === 'mousemove' && e.evt.buttons !== 1) return;
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (pointer) onNavigate(pointer.x / ratio, pointer.y / ratio);
+  };
+
+  return (
+    <div className="bg-white/90 border border-gray-300 rounded shadow-sm">
+      <Stage width={width} height={height} onMouseDown={handlePointer} onMouseMove={handlePointer}>
+        <Layer>
+          {/* All points in one shape; the minimap never needs per-point events */}
+          <Shape
+            listening={false}
+            sceneFunc={(context) => {
+              for (let i = 0; i < xs.length; i++) {
+                context.fillStyle = colors[i] || '#000000';
+                context.fillRect(xs[i] * ratio - 1, ys[i] * ratio - 1, 2, 2);
+              }
+            }}
+          />
+          <Rect
+            x={viewport.x * ratio}
+            y={viewport.y * ratio}
+            width={viewport.width * ratio}
+            height={viewport.height * ratio}
+            stroke="#2563EB"
+            strokeWidth={1.5}
+            fill="#2563EB22"
+            listening={false}
+          />
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+// SketchToCad-Frontend/src/app/components/TemplatePanel.tsx
+"use client";
+
+import { useState } from 'react';
+import { ClusteringTemplate } from '../types/clustering/ClusteringTemplate';
+import { TemplatePreview } from '../types/clustering/TemplatePreview';
+
+interface TemplatePanelProps {
+  templates: ClusteringTemplate[];
+  method: string;
+  canSave: boolean;
+  preview: TemplatePreview | null;
+  onSave: (name: string) => void;
+  onPreview: (templateId: string | null) => void;
+  onApply: () => void;
+  onDelete: (templateId: string) => void;
+}
+
+export default function TemplatePanel({
+  templates,
+  method,
+  canSave,
+  preview,
+  onSave,
+  onPreview,
+  onApply,
+  onDelete
+}: TemplatePanelProps) {
+  const [name, setName] = useState('');
+
+  // Polygon coordinates only mean something in the data space of the method they were drawn in
+  const usable = templates.filter(template => template.enhancement_method === method);
+  const otherMethods = templates.length - usable.length;
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg text-sm">
+      <h4 className="font-semibold mb-2">Templates</h4>
+
+      <div className="flex space-x-2 mb-3">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && canSave && save()}
+          placeholder="Template name"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-lg"
+        />
+        <button
+          onClick={save}
+          disabled={!canSave || !name.trim()}
+          title={canSave ? 'Save the current polygons and clusters' : 'Draw polygons first'}
+          className="px-3 py-1 rounded-lg font-medium border border-gray-300 hover:bg-white disabled:text-gray-400 disabled:hover:bg-transparent"
+        >
+          Save
+        </button>
+      </div>
+
+      {usable.length === 0 ? (
+        <p className="text-gray-500">No templates for this enhancement method yet.</p>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {usable.map(template => (
+            <li
+              key={template.id}
+              className={`flex items-center justify-between px-2 py-1 rounded ${
+                preview?.template.id === template.id ? 'bg-blue-100' : 'hover:bg-white'
+              }`}
+            >
+              <button
+                onClick={() => onPreview(preview?.template.id === template.id ? null : template.id)}
+                className="flex-1 text-left truncate"
+              >
+                {template.name}
+                <span className="text-xs text-gray-500"> · {template.polygons.length} polygons</span>
+              </button>
+              <button
+                onClick={() => confirm(`Delete template "${template.name}"?`) && onDelete(template.id)}
+                className="text-xs text-red-600 hover:text-red-800 ml-2"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {otherMethods > 0 && (
+        <p className="text-xs text-gray-500 mt-1">
+          {otherMethods} template{otherMethods === 1 ? '' : 's'} saved for other enhancement methods.
+        </p>
+      )}
+
+      {preview && (
+        <div className="mt-3 pt-3 border-t border-gray-200">
+          <p className="font-medium mb-1">
+            Captures {preview.coveredBeds} of {preview.totalBeds} beds
+          </p>
+          <ul className="space-y-1 mb-3 max-h-40 overflow-y-auto">
+            {preview.polygons.map((polygon, index) => (
+              <li key={polygon.id} className="flex items-start space-x-2">
+                <span className="w-3 h-3 mt-1 rounded flex-shrink-0" style={{ backgroundColor: polygon.color }}></span>
+                <span className="flex-1">
+                  Polygon {index + 1} ({polygon.clusterName}):{' '}
+                  <span className={polygon.bedCount === 0 ? 'text-red-700' : ''}>
+                    {polygon.bedCount} bed{polygon.bedCount === 1 ? '' : 's'}
+                  </span>
+                  {polygon.warning && <span className="block text-xs text-yellow-700">{polygon.warning}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onApply}
+              className="px-3 py-1 rounded-lg font-medium bg-green-600 text-white hover:bg-green-700"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => onPreview(null)}
+              className="px-3 py-1 rounded-lg font-medium border border-gray-300 hover:bg-white"
+            >
+              Cancel
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Applying replaces the current polygons and cluster definitions; it can be undone.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,28 @@
 // SketchToCad-Frontend/src/app/page.tsx
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import axios from 'axios';
 import {
   apiService,
+  isAbortError,
+  MeasurementUnits,
   ProcessingResult,
   SagaStatus
 } from "@/services/api.service";
+import { sessionService } from "@/services/session.service";
 import { ClusteringResult } from "./types/clustering/ClusteringResult";
+import { ClusterStats } from "./types/clustering/ClusterStats";
+import { ClusterDefinition } from "./types/clustering/ClusterDefinition";
+import { Polygon } from "./types/geometry/Polygon";
+import { RasterisedPage } from "./types/image/DocumentPage";
+import { AreaUnit, ScaleCalibration } from "./types/measurement/ScaleCalibration";
 import ImageUploader from "./components/ImageUploader";
+import BatchProcessor from "./components/BatchProcessor";
 import ResultsDashboard from "./components/ResultsDashboard";
 import EnhancementSelector from "./components/EnhancementSelector";
 import ProcessingStatus from './components/ProcessingStatus';
-import ManualClustering from './components/ManualClustering';
+import ScaleCalibrator from './components/ScaleCalibrator';
 import API_CONFIG from '@/config/api.config';
 import dynamic from "next/dynamic";
 
@@ -36,6 +46,8 @@ interface EnhancementSelection {
   ylabel: string;
   original_colors: number[][];
   full_enhanced_colors: Record<string, number[][]>;
+  // bed_id of the bed at each plot_data index
+  bed_ids: number[];
 }
 
 export default function Home() {
@@ -46,20 +58,159 @@ export default function Home() {
   const [sagaId, setSagaId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [sagaStatus, setSagaStatus] = useState<string | null>(null);
+  const [sagaStatus, setSagaStatus] = useState<SagaStatus | null>(null);
+  const [isResuming, setIsResuming] = useState(false);
+  // Saga whose resume failed for a reason that may pass, e.g. the gateway being briefly down
+  const [retryableSagaId, setRetryableSagaId] = useState<string | null>(null);
+  const [restoredPolygons, setRestoredPolygons] = useState<Polygon[]>([]);
+  const [restoredClusters, setRestoredClusters] = useState<ClusterDefinition[]>([]);
+  const [restoredAssignments, setRestoredAssignments] = useState<Record<number, number>>({});
+  const [restoredExcluded, setRestoredExcluded] = useState<number[]>([]);
+  const [uploadedImageUrl, setUploadedImageUrl] = useState<string | null>(null);
+  const [uploadMode, setUploadMode] = useState<'single' | 'batch'>('single');
+  // Pages picked from a document in single mode, handed over to the batch queue
+  const [batchPages, setBatchPages] = useState<RasterisedPage[]>([]);
+  const [sourceDpi, setSourceDpi] = useState<number | null>(null);
+  const [scaleCalibration, setScaleCalibration] = useState<ScaleCalibration | null>(null);
+  const [areaUnit, setAreaUnit] = useState<AreaUnit>(() => sessionService.getAreaUnit());
+  const operationRef = useRef<AbortController | null>(null);
+
+  // Starts a cancellable workflow operation, aborting any that is still running
+  const beginOperation = (): AbortSignal => {
+    operationRef.current?.abort();
+    const controller = new AbortController();
+    operationRef.current = controller;
+    return controller.signal;
+  };
+
+  // Returns false when the operation was aborted or superseded in the meantime
+  const endOperation = (signal: AbortSignal): boolean => {
+    if (operationRef.current?.signal !== signal) return false;
+    operationRef.current = null;
+    return true;
+  };
 
   const handleSagaProgress = (status: SagaStatus) => {
-    setSagaStatus(status.status);
+    setSagaStatus(status);
     console.log('Saga progress:', status.status, status.current_step);
   };
 
-  const handleImageUpload = async (file: File) => {
+  // Rebuild the current step from the backend saga, after a reload or from "Retry resume"
+  const resumeSaga = async (resumableSagaId: string) => {
+    const signal = beginOperation();
+    // The last status seen, to tell a saga that failed from one that could not be reached
+    let lastStatus = null as SagaStatus | null;
+
+    setIsLoading(true);
+    setIsResuming(true);
+    setError(null);
+    setRetryableSagaId(null);
+    setSagaId(resumableSagaId);
+
+    try {
+      console.log("Resuming saga workflow:", resumableSagaId);
+      const status = await apiService.resumeWorkflow(resumableSagaId, (progress) => {
+        lastStatus = progress;
+        handleSagaProgress(progress);
+      }, signal);
+
+      const result = apiService.toProcessingResult(status);
+      const storedSession = sessionService.resumeSession(resumableSagaId);
+
+      setProcessingResult(result);
+      setSourceDpi(storedSession.source_dpi ?? null);
+      // Sessions stored before calibration existed have no scale
+      setScaleCalibration(storedSession.scale_calibration ?? null);
+
+      if (status.status === 'awaiting_enhancement_selection') {
+        setCurrentStep('enhancement');
+        return;
+      }
+
+      const method = status.result_data?.enhancement_method
+        || storedSession?.enhancement_method
+        || 'original';
+      const selection = buildEnhancementSelection(result, method);
+
+      sessionService.saveEnhancementMethod(resumableSagaId, method);
+      setEnhancementSelection(selection);
+      setRestoredPolygons(storedSession.polygons);
+      // Sessions stored before clusters had names have no definitions
+      setRestoredClusters(storedSession.clusters || []);
+      // Sessions stored before sketch-mode picks were kept have neither
+      setRestoredAssignments(storedSession.assignments || {});
+      setRestoredExcluded(storedSession.excluded || []);
+
+      if (status.status === 'awaiting_clustering') {
+        setCurrentStep('clustering');
+        return;
+      }
+
+      const clustersData = status.result_data?.processed_clusters || {};
+      setClusteringResult(buildClusteringResult(status, clustersData, result, storedSession.clusters || []));
+      setCurrentStep('results');
+    } catch (err: unknown) {
+      if (isAbortError(err)) return;
+      const detail = axios.isAxiosError(err) ? err.response?.data?.detail : undefined;
+      const errorMessage = detail || (err instanceof Error && err.message) || "Failed to resume workflow";
+      setError(`Resume Error: ${errorMessage}`);
+      console.error("Resume error:", err);
+
+      // Only a saga the backend no longer has, or one that ended in failure, takes the stored work with it
+      const terminalStatus = lastStatus?.status;
+      const sagaIsGone = (axios.isAxiosError(err) && err.response?.status === 404)
+        || terminalStatus === 'failed'
+        || terminalStatus === 'compensated';
+      if (sagaIsGone) {
+        sessionService.clearSession(resumableSagaId);
+      } else {
+        setRetryableSagaId(resumableSagaId);
+      }
+      setSagaId(null);
+      setSagaStatus(null);
+    } finally {
+      if (endOperation(signal)) {
+        setIsLoading(false);
+        setIsResuming(false);
+      }
+    }
+  };
+
+  // The mount effect runs once; the ref gives it this render's resumeSaga without re-running it
+  const resumeSagaRef = useRef(resumeSaga);
+  resumeSagaRef.current = resumeSaga;
+
+  useEffect(() => {
+    const resumableSagaId = sessionService.getResumableSagaId();
+    if (!resumableSagaId) return;
+
+    resumeSagaRef.current(resumableSagaId);
+
+    return () => {
+      operationRef.current?.abort();
+    };
+  }, []);
+
+  const handleImageUpload = async (file: File, sourceDpi: number | null) => {
+    const signal = beginOperation();
     setIsLoading(true);
     setError(null);
+    setRetryableSagaId(null);
+
+    if (uploadedImageUrl) {
+      URL.revokeObjectURL(uploadedImageUrl);
+    }
+    setUploadedImageUrl(URL.createObjectURL(file));
+    setSourceDpi(sourceDpi);
+    setScaleCalibration(null);
 
     try {
       console.log("Starting saga workflow...");
-      const result = await apiService.processImage(file, handleSagaProgress);
+      const result = await apiService.processImage(file, handleSagaProgress, (workflow) => {
+        sessionService.startSession(workflow.saga_id);
+        sessionService.saveSourceDpi(workflow.saga_id, sourceDpi);
+        setSagaId(workflow.saga_id);
+      }, signal);
 
       // ADD THIS LOG
       console.log("Enhanced colors received:", {
@@ -81,17 +232,21 @@ export default function Home() {
       setProcessingResult(result);
       setCurrentStep('enhancement');
     } catch (err: any) {
+      if (isAbortError(err)) return;
       const errorMessage = err.response?.data?.detail || err.message || "Failed to process image";
       setError(`Image Processing Error: ${errorMessage}`);
       console.error("Image upload error:", err);
     } finally {
-      setIsLoading(false);
+      if (endOperation(signal)) {
+        setIsLoading(false);
+      }
     }
   };
 
   const handleEnhancementSelection = async (method: string) => {
     if (!processingResult || !sagaId) return;
 
+    const signal = beginOperation();
     setIsLoading(true);
     setError(null);
 
@@ -108,36 +263,34 @@ export default function Home() {
       await apiService.submitEnhancementSelection(
         sagaId,
         method,
-        handleSagaProgress
+        handleSagaProgress,
+        signal
       );
 
-      const originalRgbColors = processingResult.bed_data.map(bed => bed.rgb_median);
-      const rgbColors = enhancedColors.original || originalRgbColors;
-
-      const selection: EnhancementSelection = {
-        method: method,
-        plot_data: enhancedColors[method],
-        xlabel: 'Component 1',
-        ylabel: 'Component 2',
-        original_colors: rgbColors,
-        full_enhanced_colors: enhancedColors
-      };
-
-      setEnhancementSelection(selection);
+      sessionService.saveEnhancementMethod(sagaId, method);
+      sessionService.savePolygons(sagaId, []);
+      setRestoredPolygons([]);
+      setRestoredAssignments({});
+      setRestoredExcluded([]);
+      setEnhancementSelection(buildEnhancementSelection(processingResult, method));
       setCurrentStep('clustering');
     } catch (err: unknown) {
+      if (isAbortError(err)) return;
       const errorMessage = err instanceof Error ? err.message :
         (err as any)?.response?.data?.detail || "Failed to select enhancement method";
       setError(`Enhancement Selection Error: ${errorMessage}`);
       console.error("Enhancement selection error:", err);
     } finally {
-      setIsLoading(false);
+      if (endOperation(signal)) {
+        setIsLoading(false);
+      }
     }
   };
 
-  const handleClustering = async (clustersData: Record<string, number[]>) => {
+  const handleClustering = async (clustersData: Record<string, number[]>, clusters: ClusterDefinition[]) => {
     if (!processingResult || !enhancementSelection || !sagaId) return;
 
+    const signal = beginOperation();
     setIsLoading(true);
     setError(null);
 
@@ -148,39 +301,20 @@ export default function Home() {
         totalBeds: processingResult.bed_data.length
       });
 
+      const clusterMetadata = Object.fromEntries(
+        clusters.map(({ id, ...metadata }) => [String(id), metadata])
+      );
+
       const status = await apiService.submitClustering(
         sagaId,
         clustersData,
-        handleSagaProgress
+        clusterMetadata,
+        measurementUnits,
+        handleSagaProgress,
+        signal
       );
 
-      const resultData = status.result_data || {};
-
-      const result: ClusteringResult = {
-        final_labels: [],
-        processed_clusters: resultData.processed_clusters || clustersData,
-        statistics: resultData.clustering_statistics || {
-          total_beds: processingResult.bed_data.length,
-          clustered_beds: Object.values(clustersData).flat().length,
-          unclustered_beds: processingResult.bed_data.length - Object.values(clustersData).flat().length,
-          coverage_percent: Math.round((Object.values(clustersData).flat().length / processingResult.bed_data.length) * 100),
-          num_clusters: Object.keys(clustersData).length,
-          cluster_details: Object.entries(clustersData).map(([name, bedIds], index) => ({
-            cluster_id: index,
-            cluster_name: name,
-            bed_count: bedIds.length,
-            total_area: bedIds.reduce((sum, id) => {
-              const bed = processingResult.bed_data.find(b => b.bed_id === id);
-              return sum + (bed?.area || 0);
-            }, 0),
-            average_area: Math.round(bedIds.reduce((sum, id) => {
-              const bed = processingResult.bed_data.find(b => b.bed_id === id);
-              return sum + (bed?.area || 0);
-            }, 0) / bedIds.length),
-            bed_ids: bedIds
-          }))
-        }
-      };
+      const result = buildClusteringResult(status, clustersData, processingResult, clusters);
 
       console.log("Clustering completed via saga");
 
@@ -193,7 +327,7 @@ export default function Home() {
         try {
           // Use API Gateway base URL (port 8000) not Next.js server (port 3000)
           const downloadUrl = `${API_CONFIG.workflow.baseUrl.replace('/workflow', '')}/workflow/${sagaId}/download`;
-          const response = await fetch(downloadUrl);
+          const response = await fetch(downloadUrl, { signal });
 
           if (response.ok) {
             const blob = await response.blob();
@@ -220,17 +354,21 @@ export default function Home() {
         }
       }
     } catch (err: any) {
+      if (isAbortError(err)) return;
       const errorMessage = err.response?.data?.detail || err.message || "Failed to process clustering";
       setError(`Clustering Error: ${errorMessage}`);
       console.error("Clustering error:", err);
     } finally {
-      setIsLoading(false);
+      if (endOperation(signal)) {
+        setIsLoading(false);
+      }
     }
   };
 
   const handleExport = async (exportType: 'summary' | 'detailed' = 'detailed') => {
     if (!processingResult || !clusteringResult || !sagaId) return;
 
+    const signal = beginOperation();
     setIsLoading(true);
     setError(null);
 
@@ -240,13 +378,15 @@ export default function Home() {
       const status = await apiService.requestExport(
         sagaId,
         exportType,
-        handleSagaProgress
+        measurementUnits,
+        handleSagaProgress,
+        signal
       );
 
       const downloadUrl = status.result_data?.download_url;
 
       if (downloadUrl) {
-        const response = await fetch(downloadUrl);
+        const response = await fetch(downloadUrl, { signal });
         const blob = await response.blob();
 
         const timestamp = new Date().getTime();
@@ -258,24 +398,93 @@ export default function Home() {
         throw new Error("No download URL in export result");
       }
     } catch (err: any) {
+      if (isAbortError(err)) return;
       const errorMessage = err.response?.data?.detail || err.message || "Failed to export DXF";
       setError(`Export Error: ${errorMessage}`);
       console.error("Export error:", err);
     } finally {
-      setIsLoading(false);
+      if (endOperation(signal)) {
+        setIsLoading(false);
+      }
     }
   };
 
+  const handleCancelProcessing = async () => {
+    const cancelledSagaId = sagaId;
+    handleReset();
+
+    if (!cancelledSagaId) return;
+
+    try {
+      console.log("Cancelling saga:", cancelledSagaId);
+      await apiService.cancelWorkflow(cancelledSagaId);
+    } catch (err: unknown) {
+      const detail = axios.isAxiosError(err) ? err.response?.data?.detail : undefined;
+      const errorMessage = detail || (err instanceof Error && err.message) || "Failed to cancel workflow";
+      setError(`Cancel Error: ${errorMessage}`);
+      console.error("Cancel error:", err);
+    }
+  };
+
+  const clearBatchPages = useCallback(() => setBatchPages([]), []);
+
+  // Stable between renders so the canvas only saves when the polygons or clusters change
+  const handlePolygonsChange = useCallback((polygons: Polygon[]) => {
+    if (sagaId) sessionService.savePolygons(sagaId, polygons);
+  }, [sagaId]);
+
+  const handleClustersChange = useCallback((clusters: ClusterDefinition[]) => {
+    if (sagaId) sessionService.saveClusters(sagaId, clusters);
+  }, [sagaId]);
+
+  const handleAssignmentsChange = useCallback((assignments: Record<number, number>) => {
+    if (sagaId) sessionService.saveAssignments(sagaId, assignments);
+  }, [sagaId]);
+
+  const handleExcludedChange = useCallback((excluded: number[]) => {
+    if (sagaId) sessionService.saveExcluded(sagaId, excluded);
+  }, [sagaId]);
+
   const handleReset = () => {
+    operationRef.current?.abort();
+    operationRef.current = null;
+    sessionService.clearSession(sagaId);
+    setRetryableSagaId(null);
+    setRestoredPolygons([]);
+    setRestoredClusters([]);
+    setRestoredAssignments({});
+    setRestoredExcluded([]);
+    if (uploadedImageUrl) {
+      URL.revokeObjectURL(uploadedImageUrl);
+    }
+    setUploadedImageUrl(null);
+    setSourceDpi(null);
+    setScaleCalibration(null);
     setCurrentStep('upload');
     setProcessingResult(null);
     setEnhancementSelection(null);
     setClusteringResult(null);
     setSagaId(null);
     setSagaStatus(null);
+    setIsLoading(false);
+    setIsResuming(false);
     setError(null);
   };
 
+  const measurementUnits: MeasurementUnits | null = scaleCalibration
+    ? { pixels_per_metre: scaleCalibration.pixels_per_metre, area_unit: areaUnit }
+    : null;
+
+  const handleCalibrationChange = (calibration: ScaleCalibration | null) => {
+    setScaleCalibration(calibration);
+    if (sagaId) sessionService.saveScaleCalibration(sagaId, calibration);
+  };
+
+  const handleAreaUnitChange = (unit: AreaUnit) => {
+    setAreaUnit(unit);
+    sessionService.setAreaUnit(unit);
+  };
+
   const handleBack = () => {
     if (currentStep === 'enhancement') {
       setCurrentStep('upload');
@@ -301,9 +510,9 @@ export default function Home() {
               Upload an image, choose color enhancement method, draw polygons to cluster similar plants,
               and analyze the results with detailed statistics.
             </p>
-            {sagaId && (
+            {sagaId && !isLoading && (
               <p className="text-sm text-gray-500 mt-2">
-                Saga ID: {sagaId} | Status: {sagaStatus}
+                Saga ID: {sagaId} | Status: {sagaStatus?.status}
               </p>
             )}
           </div>
@@ -351,9 +560,20 @@ export default function Home() {
                 <div className="ml-3">
                   <h3 className="text-sm font-medium text-red-800">Error</h3>
                   <p className="text-sm text-red-700 mt-1">{error}</p>
+                  {retryableSagaId && (
+                    <button
+                      onClick={() => resumeSaga(retryableSagaId)}
+                      className="mt-2 px-3 py-1 text-sm border border-red-300 rounded-lg text-red-800 hover:bg-red-100"
+                    >
+                      Retry resume
+                    </button>
+                  )}
                 </div>
                 <button
-                  onClick={() => setError(null)}
+                  onClick={() => {
+                    setError(null);
+                    setRetryableSagaId(null);
+                  }}
                   className="ml-auto text-red-400 hover:text-red-600"
                 >
                   <svg className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -365,21 +585,64 @@ export default function Home() {
           )}
 
           {isLoading && (
-            <div className="flex justify-center items-center py-12">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-              <span className="ml-3 text-lg text-gray-600">
-                {currentStep === 'upload' ? 'Processing image...' :
-                  currentStep === 'enhancement' ? 'Submitting enhancement...' :
-                    currentStep === 'clustering' ? 'Processing clusters...' :
-                      'Exporting...'}
-              </span>
+            <div className="pb-12">
+              <div className="flex justify-center items-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                <span className="ml-3 text-lg text-gray-600">
+                  {isResuming ? 'Resuming previous session...' :
+                    currentStep === 'upload' ? 'Processing image...' :
+                    currentStep === 'enhancement' ? 'Submitting enhancement...' :
+                      currentStep === 'clustering' ? 'Processing clusters...' :
+                        'Exporting...'}
+                </span>
+                <button
+                  onClick={handleCancelProcessing}
+                  className="ml-6 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                >
+                  Cancel processing
+                </button>
+              </div>
+
+              {sagaStatus && <ProcessingStatus status={sagaStatus} />}
+            </div>
+          )}
+
+          {!isLoading && error && sagaStatus?.status === 'failed' && (
+            <div className="mb-8">
+              <ProcessingStatus status={sagaStatus} />
             </div>
           )}
 
           {!isLoading && (
             <>
               {currentStep === 'upload' && (
-                <ImageUploader onUpload={handleImageUpload} />
+                <>
+                  <div className="flex justify-center mb-6">
+                    <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm font-medium">
+                      {(['single', 'batch'] as const).map(mode => (
+                        <button
+                          key={mode}
+                          onClick={() => setUploadMode(mode)}
+                          className={`px-4 py-2 ${
+                            uploadMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                          }`}
+                        >
+                          {mode === 'single' ? 'Single sketch' : 'Batch'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {uploadMode === 'single' && (
+                    <ImageUploader
+                      onUpload={handleImageUpload}
+                      onMultiplePages={(pages) => {
+                        setBatchPages(pages);
+                        setUploadMode('batch');
+                      }}
+                    />
+                  )}
+                </>
               )}
 
               {currentStep === 'enhancement' && processingResult && (
@@ -390,11 +653,35 @@ export default function Home() {
                 />
               )}
 
+              {((currentStep === 'clustering' && enhancementSelection) || (currentStep === 'results' && clusteringResult)) && (
+                <ScaleCalibrator
+                  imageUrl={uploadedImageUrl}
+                  sourceDpi={sourceDpi}
+                  calibration={scaleCalibration}
+                  areaUnit={areaUnit}
+                  onCalibrationChange={handleCalibrationChange}
+                  onAreaUnitChange={handleAreaUnitChange}
+                />
+              )}
+
               {currentStep === 'clustering' && enhancementSelection && (
                 <ClusteringCanvas
                   enhancementSelection={enhancementSelection}
                   onClustering={handleClustering}
                   onBack={handleBack}
+                  bedData={processingResult?.bed_data || []}
+                  imageShape={processingResult?.image_shape || []}
+                  imageUrl={uploadedImageUrl}
+                  initialPolygons={restoredPolygons}
+                  onPolygonsChange={handlePolygonsChange}
+                  initialClusters={restoredClusters}
+                  onClustersChange={handleClustersChange}
+                  initialAssignments={restoredAssignments}
+                  onAssignmentsChange={handleAssignmentsChange}
+                  initialExcluded={restoredExcluded}
+                  onExcludedChange={handleExcludedChange}
+                  scaleCalibration={scaleCalibration}
+                  areaUnit={areaUnit}
                 />
               )}
 
@@ -404,16 +691,99 @@ export default function Home() {
                   processingResult={processingResult}
                   onReset={handleReset}
                   onExport={handleExport}
+                  scaleCalibration={scaleCalibration}
+                  areaUnit={areaUnit}
                 />
               )}
             </>
           )}
+
+          {/* Kept mounted outside the loading and step conditions; unmounting would abort a running batch */}
+          <div className={!isLoading && currentStep === 'upload' && uploadMode === 'batch' ? '' : 'hidden'}>
+            <BatchProcessor pages={batchPages} onPagesQueued={clearBatchPages} />
+          </div>
         </div>
       </div>
     </div>
   );
 }
 
+function buildEnhancementSelection(
+  processingResult: ProcessingResult,
+  method: string
+): EnhancementSelection {
+  const enhancedColors = processingResult.enhanced_colors || {};
+  const originalRgbColors = processingResult.bed_data.map(bed => bed.rgb_median);
+
+  return {
+    method: method,
+    plot_data: enhancedColors[method] || [],
+    xlabel: 'Component 1',
+    ylabel: 'Component 2',
+    original_colors: enhancedColors.original || originalRgbColors,
+    full_enhanced_colors: enhancedColors,
+    bed_ids: processingResult.bed_data.map(bed => bed.bed_id)
+  };
+}
+
+function buildClusteringResult(
+  status: SagaStatus,
+  clustersData: Record<string, number[]>,
+  processingResult: ProcessingResult,
+  clusters: ClusterDefinition[]
+): ClusteringResult {
+  const resultData = status.result_data || {};
+  const clusteredBeds = Object.values(clustersData).flat().length;
+  const totalBeds = processingResult.bed_data.length;
+
+  // clustersData lists bed_ids, not positions in bed_data
+  const bedsById = new Map(processingResult.bed_data.map(bed => [bed.bed_id, bed]));
+  const areaOf = (bedIds: number[]) => bedIds.reduce((sum, id) => sum + (bedsById.get(id)?.area || 0), 0);
+
+  // clustersData is keyed by cluster id
+  const metadataOf = (key: string) => {
+    const cluster = clusters.find(c => String(c.id) === key);
+    return cluster ? {
+      cluster_name: cluster.name,
+      species: cluster.species,
+      planting_density: cluster.planting_density,
+      color: cluster.color,
+      layer_name: cluster.layer_name,
+      plant_id: cluster.plant_id
+    } : {};
+  };
+
+  const statistics = resultData.clustering_statistics;
+
+  return {
+    final_labels: [],
+    processed_clusters: resultData.processed_clusters || clustersData,
+    // Backend figures win; the designer's metadata fills in what it leaves out
+    statistics: statistics ? {
+      ...statistics,
+      cluster_details: statistics.cluster_details.map((detail: ClusterStats) => ({
+        ...metadataOf(String(detail.cluster_id)),
+        ...detail
+      }))
+    } : {
+      total_beds: totalBeds,
+      clustered_beds: clusteredBeds,
+      unclustered_beds: totalBeds - clusteredBeds,
+      coverage_percent: totalBeds > 0 ? Math.round((clusteredBeds / totalBeds) * 100) : 0,
+      num_clusters: Object.keys(clustersData).length,
+      cluster_details: Object.entries(clustersData).map(([key, bedIds]) => ({
+        cluster_id: Number(key),
+        cluster_name: `Cluster ${Number(key) + 1}`,
+        ...metadataOf(key),
+        bed_count: bedIds.length,
+        total_area: areaOf(bedIds),
+        average_area: bedIds.length > 0 ? Math.round(areaOf(bedIds) / bedIds.length) : 0,
+        bed_ids: bedIds
+      }))
+    }
+  };
+}
+
 function StepIndicator({
   step,
   title,
@@ -0,0 +1,28 @@
+export type BatchItemState =
+  | 'queued'
+  | 'uploading'
+  | 'processing'
+  | 'clustering'
+  | 'awaiting_clustering'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+// One file of a batch run and the saga processing it
+export interface BatchItem {
+  id: string;
+  file_name: string;
+  // Resolution a PDF/TIFF page was rendered at; null for photos
+  raster_dpi: number | null;
+  state: BatchItemState;
+  saga_id: string | null;
+  // Latest saga status reported by the gateway
+  saga_status: string | null;
+  bed_count: number | null;
+  clustered_beds: number | null;
+  // Resolution of the image actually uploaded, after downscaling
+  source_dpi: number | null;
+  // Set when the result should be checked before it is used
+  review_reasons: string[];
+  error: string | null;
+}
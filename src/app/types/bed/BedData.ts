@@ -9,4 +9,6 @@ export interface BedData {
     y: number;
   };
   mask?: number[][];
+  // Bed outlines in image pixel space, one [x, y] ring per polygon
+  polygons?: number[][][];
 }
\ No newline at end of file
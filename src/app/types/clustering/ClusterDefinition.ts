@@ -0,0 +1,12 @@
+export interface ClusterDefinition {
+  id: number;
+  name: string;
+  species: string;
+  // Plants per square metre; null until the designer fills it in
+  planting_density: number | null;
+  color: string;
+  // Layer the cluster's beds are written to in the DXF
+  layer_name: string;
+  // Plant library entry the cluster was filled from, if any
+  plant_id?: string;
+}
@@ -4,4 +4,11 @@ export interface ClusterStats {
   bed_ids: number[];
   total_area: number;
   average_area: number;
+  cluster_name?: string;
+  species?: string;
+  planting_density?: number | null;
+  color?: string;
+  layer_name?: string;
+  // Plant library entry the cluster was filled from, if any
+  plant_id?: string;
 }
\ No newline at end of file
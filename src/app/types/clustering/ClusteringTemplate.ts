@@ -0,0 +1,14 @@
+import { Polygon } from "../geometry/Polygon";
+import { ClusterDefinition } from "./ClusterDefinition";
+
+// Finished polygons saved for reuse on sketches drawn with the same marker palette
+export interface ClusteringTemplate {
+  id: string;
+  name: string;
+  // Polygon coordinates are in this method's data space, so it must match to reapply
+  enhancement_method: string;
+  polygons: Polygon[];
+  clusters: ClusterDefinition[];
+  combine_mode: 'intersection' | 'union';
+  created_at: string;
+}
@@ -0,0 +1,18 @@
+import { ClusteringTemplate } from "./ClusteringTemplate";
+
+export interface TemplatePolygonPreview {
+  id: string;
+  clusterName: string;
+  color: string;
+  // Beds of the current sketch the polygon would capture
+  bedCount: number;
+  warning?: string;
+}
+
+export interface TemplatePreview {
+  template: ClusteringTemplate;
+  polygons: TemplatePolygonPreview[];
+  // Distinct beds captured by any template polygon
+  coveredBeds: number;
+  totalBeds: number;
+}
@@ -0,0 +1,21 @@
+export interface EstimateRow {
+  cluster_id: number;
+  cluster_name: string;
+  species: string;
+  area_m2: number;
+  // Plants per square metre
+  planting_density: number | null;
+  // Null until the cluster has a density
+  plant_count: number | null;
+  unit_price: number | null;
+  // Null until the cluster has both a plant count and a price
+  subtotal: number | null;
+}
+
+export interface QuantityEstimate {
+  rows: EstimateRow[];
+  total_plants: number;
+  total_cost: number;
+  // Clusters left out of the totals for lack of a density or price
+  incomplete_rows: number;
+}
\ No newline at end of file
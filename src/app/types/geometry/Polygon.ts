@@ -5,4 +5,6 @@ export interface Polygon {
   points: Point[];
   cluster_id: number;
   color: string;
+  // Id of the scatter projection the points were drawn in; absent means the default axes
+  projection?: string;
 }
\ No newline at end of file
@@ -0,0 +1,4 @@
+import { Point } from "./Point";
+
+// Four corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
\ No newline at end of file
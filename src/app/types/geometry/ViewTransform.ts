@@ -0,0 +1,6 @@
+// Zoom and pan applied on top of the base data-to-canvas mapping: canvas = base * scale + (x, y)
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
@@ -0,0 +1,20 @@
+// One page of a PDF or multi-page TIFF, before it is rasterised
+export interface DocumentPageInfo {
+  // Zero-based
+  index: number;
+  // Physical size; null for a TIFF that records no resolution
+  widthInches: number | null;
+  heightInches: number | null;
+  // Stored pixel size and resolution of a scanned page; null for PDF pages
+  pixelWidth: number | null;
+  pixelHeight: number | null;
+  nativeDpi: number | null;
+}
+
+export interface RasterisedPage {
+  file: File;
+  // One-based, as shown to the user
+  pageNumber: number;
+  // Resolution the page was rendered at; null when the physical size is unknown
+  dpi: number | null;
+}
@@ -0,0 +1,38 @@
+import { Quad } from "../geometry/Quad";
+
+// Crop as fractions (0-1) of the image after rotation
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PerspectiveCorrection {
+  // Paper corners as fractions (0-1) of the image after rotation
+  corners: Quad;
+  // Width over height of the rectified sheet
+  aspectRatio: number;
+}
+
+export interface PreflightTransform {
+  // Degrees clockwise: quarter turns plus a small deskew angle
+  rotation: number;
+  crop: CropRect;
+  // Replaces the crop when set: the quad is warped onto an upright rectangle
+  perspective?: PerspectiveCorrection | null;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface PreflightResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  // Upright source size, after EXIF orientation
+  sourceWidth: number;
+  sourceHeight: number;
+}
@@ -0,0 +1,16 @@
+export type AreaUnit = "m2" | "ft2";
+
+export type LengthUnit = "m" | "cm" | "mm" | "ft" | "in";
+
+// How image pixels map to real-world metres for one saga
+export interface ScaleCalibration {
+  pixels_per_metre: number;
+  method: "line" | "drawing_scale";
+  // Reference line: its length in image pixels and what the user says it measures
+  line_pixels?: number;
+  line_length?: number;
+  line_unit?: LengthUnit;
+  // Drawing scale 1:scale_denominator, scanned or rendered at dpi
+  scale_denominator?: number;
+  dpi?: number;
+}
\ No newline at end of file
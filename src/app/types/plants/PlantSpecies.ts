@@ -0,0 +1,12 @@
+export interface PlantSpecies {
+  id: string;
+  name: string;
+  latin_name: string;
+  color: string;
+  // Centre-to-centre planting distance in metres
+  spacing_m: number;
+  layer_name: string;
+  // Price per plant for the quantity estimate; null (or missing on older entries) when unpriced
+  unit_price?: number | null;
+  updated_at: string;
+}
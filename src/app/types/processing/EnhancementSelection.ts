@@ -4,4 +4,6 @@ export interface EnhancementSelection {
   xlabel: string;
   ylabel: string;
   original_colors: number[][];
+  // bed_id of the bed at each plot_data index
+  bed_ids: number[];
 }
\ No newline at end of file
@@ -1,12 +1,28 @@
 // Empty string = relative URLs. Works with GKE Ingress routing /api/* to api-gateway
-const GATEWAY_URL = '';
+// Set NEXT_PUBLIC_GATEWAY_URL (e.g. http://localhost:8000) to talk to the local mock gateway
+const GATEWAY_URL = process.env.NEXT_PUBLIC_GATEWAY_URL || '';
+
+type StatusTransportMode = 'auto' | 'sse' | 'websocket' | 'polling';
 
 export const API_CONFIG = {
   workflow: {
     baseUrl: `${GATEWAY_URL}/api/v1/workflow`,
     endpoints: {
       start: '/start',
-      status: '/:sagaId'
+      status: '/:sagaId',
+      events: '/:sagaId/events',
+      cancel: '/:sagaId/cancel'
+    },
+    // 'auto' listens for server-sent events and falls back to polling
+    statusTransport: {
+      mode: (process.env.NEXT_PUBLIC_STATUS_TRANSPORT || 'auto') as StatusTransportMode,
+      maxWaitMs: 30 * 60 * 1000,
+      polling: {
+        initialIntervalMs: 500,
+        maxIntervalMs: 10000,
+        multiplier: 1.6,
+        jitter: 0.25
+      }
     }
   },
   imageProcessing: {
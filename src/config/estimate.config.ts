@@ -0,0 +1,7 @@
+// Bill of quantities shown under the results.
+export const ESTIMATE_CONFIG = {
+  // ISO 4217 code used to format unit prices and totals
+  currency: process.env.NEXT_PUBLIC_ESTIMATE_CURRENCY || 'EUR'
+};
+
+export default ESTIMATE_CONFIG;
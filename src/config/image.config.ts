@@ -0,0 +1,30 @@
+// Limits for sketches checked in the browser before they are uploaded.
+// The gateway rejects uploads above maxUploadBytes; larger photos are downscaled first.
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const IMAGE_CONFIG = {
+  acceptedTypes: ['image/jpeg', 'image/png', 'image/webp'],
+  acceptedExtensions: ['.jpeg', '.jpg', '.png', '.webp'],
+  // Rasterised page by page in the browser
+  acceptedDocuments: {
+    'application/pdf': ['.pdf'],
+    'image/tiff': ['.tif', '.tiff']
+  } as Record<string, string[]>,
+  // What the browser is asked to open; phone photos are often 5-15 MB
+  maxInputBytes: envNumber(process.env.NEXT_PUBLIC_MAX_IMAGE_INPUT_MB, 40) * 1024 * 1024,
+  maxUploadBytes: envNumber(process.env.NEXT_PUBLIC_MAX_IMAGE_UPLOAD_MB, 10) * 1024 * 1024,
+  // Decoding is refused above this; a 50 MP bitmap already needs 200 MB of memory
+  maxMegapixels: envNumber(process.env.NEXT_PUBLIC_MAX_IMAGE_MEGAPIXELS, 50),
+  minDimension: 200,
+  // Longest side after downscaling
+  maxDimension: envNumber(process.env.NEXT_PUBLIC_MAX_IMAGE_DIMENSION, 3000),
+  maxDimensionOptions: [1500, 2000, 3000, 4000],
+  previewMaxDimension: 1200,
+  outputType: 'image/jpeg',
+  outputQuality: 0.92
+};
+
+export default IMAGE_CONFIG;
@@ -1,6 +1,14 @@
 // SketchToCad-Frontend/src/services/api.service.ts
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { API_CONFIG } from '../config/api.config';
+import {
+  EventSourceStatusTransport,
+  FallbackStatusTransport,
+  PollingStatusTransport,
+  StatusTransport,
+  WebSocketStatusTransport
+} from './status-transport.service';
+import { AreaUnit } from '../app/types/measurement/ScaleCalibration';
 
 interface BedData {
   bed_id: number;
@@ -8,6 +16,10 @@ interface BedData {
   rgb_median: number[];
   rgb_mean: number[];
   clean_pixel_count: number;
+  position?: {
+    x: number;
+    y: number;
+  };
   polygons?: number[][][];
 }
 
@@ -38,6 +50,7 @@ interface SagaStep {
   step_name: string;
   status: string;
   duration_ms: number | null;
+  error_message?: string | null;
 }
 
 interface SagaStatus {
@@ -61,6 +74,21 @@ interface WorkflowStartResponse {
   message: string;
 }
 
+// Designer-facing details of one cluster, submitted alongside its beds
+interface ClusterMetadata {
+  name: string;
+  species: string;
+  planting_density: number | null;
+  color: string;
+  layer_name: string;
+}
+
+// Real-world scale for the exported files; null while the saga is uncalibrated
+interface MeasurementUnits {
+  pixels_per_metre: number;
+  area_unit: AreaUnit;
+}
+
 interface ClusterStatistics {
   total_beds: number;
   clustered_beds: number;
@@ -74,6 +102,11 @@ interface ClusterStatistics {
     total_area: number;
     average_area: number;
     bed_ids: number[];
+    species?: string;
+    planting_density?: number | null;
+    color?: string;
+    layer_name?: string;
+    plant_id?: string;
   }>;
 }
 
@@ -84,9 +117,15 @@ interface ClusteringResult {
   clustered_image?: string;
 }
 
+// Saga states the UI has a screen for; anything else is still in flight
+const RESUMABLE_STATUSES = ['awaiting_enhancement_selection', 'awaiting_clustering', 'completed'];
+
 class ApiService {
   private gatewayApi: AxiosInstance;
+  // bed_ids reported by each saga, used to validate clustering payloads
+  private knownBedIds = new Map<string, Set<number>>();
   private currentSagaId: string | null = null;
+  private statusTransport: StatusTransport;
 
   constructor() {
     this.gatewayApi = axios.create({
@@ -98,10 +137,41 @@ class ApiService {
     });
 
     this.setupInterceptors();
+    this.statusTransport = this.createStatusTransport();
+  }
+
+  private createStatusTransport(): StatusTransport {
+    const { mode, maxWaitMs, polling } = API_CONFIG.workflow.statusTransport;
+    const eventsUrl = (sagaId: string) =>
+      `${API_CONFIG.workflow.baseUrl}${API_CONFIG.workflow.endpoints.events.replace(':sagaId', sagaId)}`;
+
+    const pollingTransport = new PollingStatusTransport(
+      (sagaId, signal) => this.getWorkflowStatus(sagaId, signal),
+      { ...polling, maxWaitMs }
+    );
+
+    switch (mode) {
+      case 'polling':
+        return pollingTransport;
+      case 'websocket':
+        return new FallbackStatusTransport(
+          new WebSocketStatusTransport(eventsUrl, maxWaitMs),
+          pollingTransport
+        );
+      default:
+        return new FallbackStatusTransport(
+          new EventSourceStatusTransport(eventsUrl, maxWaitMs),
+          pollingTransport
+        );
+    }
   }
 
   private setupInterceptors() {
     const errorHandler = (error: AxiosError) => {
+      if (axios.isCancel(error)) {
+        return Promise.reject(error);
+      }
+
       if (error.response) {
         console.error('API Error:', {
           status: error.response.status,
@@ -129,7 +199,7 @@ class ApiService {
     return this.currentSagaId;
   }
 
-  async startWorkflow(file: File): Promise<WorkflowStartResponse> {
+  async startWorkflow(file: File, signal?: AbortSignal): Promise<WorkflowStartResponse> {
     const formData = new FormData();
     formData.append('file', file);
 
@@ -139,7 +209,8 @@ class ApiService {
       {
         headers: {
           'Content-Type': 'multipart/form-data'
-        }
+        },
+        signal
       }
     );
 
@@ -147,56 +218,106 @@ class ApiService {
     return response.data;
   }
 
-  async getWorkflowStatus(sagaId: string): Promise<SagaStatus> {
+  async getWorkflowStatus(sagaId: string, signal?: AbortSignal): Promise<SagaStatus> {
     const response = await this.gatewayApi.get<SagaStatus>(
-      `/workflow/${sagaId}`
+      `/workflow/${sagaId}`,
+      { signal }
     );
     return response.data;
   }
 
-  async pollWorkflowStatus(
+  /**
+   * Asks the gateway to cancel the saga and run its compensating steps so the
+   * backend session is cleaned up.
+   */
+  async cancelWorkflow(sagaId: string): Promise<void> {
+    await this.gatewayApi.post(
+      `/workflow${API_CONFIG.workflow.endpoints.cancel.replace(':sagaId', sagaId)}`
+    );
+
+    if (this.currentSagaId === sagaId) {
+      this.currentSagaId = null;
+    }
+  }
+
+  /**
+   * Resolves once the saga reaches one of `targetStatuses`, reporting every
+   * intermediate status through `onProgress` whichever transport delivers it.
+   */
+  async waitForWorkflowStatus(
     sagaId: string,
     targetStatuses: string[],
     onProgress?: (status: SagaStatus) => void,
-    maxAttempts = 120,
-    intervalMs = 1000
+    signal?: AbortSignal
   ): Promise<SagaStatus> {
-    for (let i = 0; i < maxAttempts; i++) {
-      const status = await this.getWorkflowStatus(sagaId);
-
-      if (onProgress) {
-        onProgress(status);
-      }
-
-      if (targetStatuses.includes(status.status)) {
-        return status;
-      }
+    return this.statusTransport.waitForStatus(sagaId, targetStatuses, onProgress, signal);
+  }
 
-      if (status.status === 'failed' || status.status === 'compensated') {
-        throw new Error(`Workflow failed: ${status.error_message || 'Unknown error'}`);
-      }
+  async processImage(
+    file: File,
+    onProgress?: (status: SagaStatus) => void,
+    onStarted?: (workflow: WorkflowStartResponse) => void,
+    signal?: AbortSignal
+  ): Promise<ProcessingResult> {
+    const workflowResult = await this.startWorkflow(file, signal);
 
-      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    if (onStarted) {
+      onStarted(workflowResult);
     }
 
-    throw new Error('Workflow timeout - exceeded maximum wait time');
-  }
-
-  async processImage(file: File, onProgress?: (status: SagaStatus) => void): Promise<ProcessingResult> {
-    const workflowResult = await this.startWorkflow(file);
-
     // Wait until enhanced colors are generated and ready for selection
-    const completedStatus = await this.pollWorkflowStatus(
+    const completedStatus = await this.waitForWorkflowStatus(
       workflowResult.saga_id,
       ['awaiting_enhancement_selection'],
-      onProgress
+      onProgress,
+      signal
     );
 
-    const resultData = completedStatus.result_data || {};
+    return this.toProcessingResult(completedStatus);
+  }
+
+  /**
+   * Picks up an existing saga after a page reload. Sagas that are still
+   * running are polled until they reach a step the UI can render.
+   */
+  async resumeWorkflow(
+    sagaId: string,
+    onProgress?: (status: SagaStatus) => void,
+    signal?: AbortSignal
+  ): Promise<SagaStatus> {
+    const status = await this.getWorkflowStatus(sagaId, signal);
+
+    if (onProgress) {
+      onProgress(status);
+    }
+
+    if (RESUMABLE_STATUSES.includes(status.status)) {
+      this.currentSagaId = sagaId;
+      return status;
+    }
+
+    if (status.status === 'failed' || status.status === 'compensated') {
+      throw new Error(`Workflow failed: ${status.error_message || 'Unknown error'}`);
+    }
+
+    this.currentSagaId = sagaId;
+    return await this.waitForWorkflowStatus(sagaId, RESUMABLE_STATUSES, onProgress, signal);
+  }
+
+  /**
+   * Maps the saga's result data onto a ProcessingResult and remembers its bed
+   * IDs so submitClustering can reject payloads that reference other beds.
+   */
+  toProcessingResult(status: SagaStatus): ProcessingResult {
+    const resultData = status.result_data || {};
+
+    if (resultData.bed_data) {
+      this.knownBedIds.set(status.saga_id, new Set(resultData.bed_data.map((bed: BedData) => bed.bed_id)));
+    }
 
     return {
-      session_id: completedStatus.session_id,
-      saga_id: workflowResult.saga_id,
+      session_id: status.session_id,
+      saga_id: status.saga_id,
       bed_count: resultData.bed_count || 0,
       bed_data: resultData.bed_data || [],
       statistics: resultData.statistics || {
@@ -219,48 +340,76 @@ class ApiService {
   async submitEnhancementSelection(
     sagaId: string,
     enhancementMethod: string,
-    onProgress?: (status: SagaStatus) => void
+    onProgress?: (status: SagaStatus) => void,
+    signal?: AbortSignal
   ): Promise<SagaStatus> {
     await this.gatewayApi.post(`/workflow/${sagaId}/enhancement`, {
       enhancement_method: enhancementMethod
-    });
+    }, { signal });
 
-    return await this.pollWorkflowStatus(
+    return await this.waitForWorkflowStatus(
       sagaId,
       ['awaiting_clustering'],
-      onProgress
+      onProgress,
+      signal
     );
   }
 
   async submitClustering(
     sagaId: string,
     clustersData: Record<string, number[]>,
-    onProgress?: (status: SagaStatus) => void
+    clusterMetadata: Record<string, ClusterMetadata>,
+    units: MeasurementUnits | null,
+    onProgress?: (status: SagaStatus) => void,
+    signal?: AbortSignal
   ): Promise<SagaStatus> {
+    this.validateClustersData(sagaId, clustersData);
+
     await this.gatewayApi.post(`/workflow/${sagaId}/clustering`, {
-      clusters_data: clustersData
-    });
+      clusters_data: clustersData,
+      cluster_metadata: clusterMetadata,
+      units
+    }, { signal });
 
-    return await this.pollWorkflowStatus(
+    return await this.waitForWorkflowStatus(
       sagaId,
       ['completed'],  // Changed from 'awaiting_export' since export is now automatic
-      onProgress
+      onProgress,
+      signal
     );
   }
 
+  // Cluster values must be bed_ids of this saga; skipped when the saga's beds were never loaded
+  validateClustersData(sagaId: string, clustersData: Record<string, number[]>) {
+    const known = this.knownBedIds.get(sagaId);
+    if (!known) return;
+
+    const unknown = Array.from(new Set(Object.values(clustersData).flat()))
+      .filter(bedId => !known.has(bedId))
+      .sort((a, b) => a - b);
+
+    if (unknown.length > 0) {
+      throw new ClusteringPayloadError(unknown);
+    }
+  }
+
   async requestExport(
     sagaId: string,
     exportType: 'summary' | 'detailed' = 'detailed',
-    onProgress?: (status: SagaStatus) => void
+    units: MeasurementUnits | null = null,
+    onProgress?: (status: SagaStatus) => void,
+    signal?: AbortSignal
   ): Promise<SagaStatus> {
     await this.gatewayApi.post(`/workflow/${sagaId}/export`, {
-      export_type: exportType
-    });
+      export_type: exportType,
+      units
+    }, { signal });
 
-    return await this.pollWorkflowStatus(
+    return await this.waitForWorkflowStatus(
       sagaId,
       ['completed'],
-      onProgress
+      onProgress,
+      signal
     );
   }
 
@@ -276,6 +425,53 @@ class ApiService {
   }
 }
 
+/**
+ * Raised before submission when the clusters reference bed IDs the saga never
+ * reported, e.g. array positions sent instead of `bed_id`s, or beds that have
+ * no `bed_id` at all.
+ */
+export class ClusteringPayloadError extends Error {
+  constructor(readonly unknownBedIds: number[], readonly unmappedIndices: number[] = []) {
+    const list = (values: number[]) =>
+      values.slice(0, 10).join(', ') + (values.length > 10 ? ` and ${values.length - 10} more` : '');
+    super(unmappedIndices.length > 0
+      ? `Beds at plot positions ${list(unmappedIndices)} have no bed ID`
+      : `Clusters reference unknown bed IDs: ${list(unknownBedIds)}`);
+    this.name = 'ClusteringPayloadError';
+  }
+}
+
+/**
+ * Turns clusters of plot indices into clusters of bed_ids. An index without a
+ * bed_id is an error rather than sent as is, since it could match a real bed.
+ */
+export function toBedIdClusters(
+  clusters: Record<string, number[]>,
+  bedIds: ArrayLike<number | undefined>
+): Record<string, number[]> {
+  const unmapped = new Set<number>();
+  const mapped = Object.fromEntries(
+    Object.entries(clusters).map(([clusterId, indices]) => [clusterId, indices.flatMap(i => {
+      const bedId = bedIds[i];
+      if (bedId === undefined || bedId === null) {
+        unmapped.add(i);
+        return [];
+      }
+      return [bedId];
+    })])
+  );
+
+  if (unmapped.size > 0) {
+    throw new ClusteringPayloadError([], Array.from(unmapped).sort((a, b) => a - b));
+  }
+  return mapped;
+}
+
+// True for both cancelled axios requests and aborted status waits
+export function isAbortError(error: unknown): boolean {
+  return axios.isCancel(error) || (error instanceof DOMException && error.name === 'AbortError');
+}
+
 export const apiService = new ApiService();
 
 export type {
@@ -284,6 +480,8 @@ export type {
   ProcessingStatistics,
   ClusteringResult,
   ClusterStatistics,
+  ClusterMetadata,
+  MeasurementUnits,
   SagaStatus,
   SagaStep,
   WorkflowStartResponse
@@ -0,0 +1,133 @@
+// SketchToCad-Frontend/src/services/batch.service.ts
+import { BatchItem } from '../app/types/batch/BatchItem';
+import { ClusteringTemplate } from '../app/types/clustering/ClusteringTemplate';
+import { apiService, isAbortError, SagaStatus, toBedIdClusters } from './api.service';
+import { imagePreflightService } from './image-preflight.service';
+import { forEachWithConcurrency } from '../utils/concurrency.utils';
+import { buildProjectionSpace } from '../utils/cluster-membership.utils';
+import { evaluateTemplate, templateReviewReasons } from '../utils/template.utils';
+
+interface BatchOptions {
+  enhancementMethod: string;
+  // Applied to every sketch so it runs through to the DXF; without one sagas stop before clustering
+  template: ClusteringTemplate | null;
+  concurrency: number;
+  minCoveragePercent?: number;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/**
+ * Runs one saga per sketch through apiService, a few at a time. Progress is
+ * reported per item through `onUpdate`; one failing file never stops the rest.
+ */
+class BatchService {
+  async run(
+    items: BatchItem[],
+    files: File[],
+    options: BatchOptions,
+    onUpdate: (item: BatchItem) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const started = new Set<number>();
+    await forEachWithConcurrency(items, options.concurrency, async (item, index) => {
+      started.add(index);
+      await this.processItem(item, files[index], options, onUpdate, signal);
+    }, signal);
+
+    // Items the run never reached
+    if (signal?.aborted) {
+      items
+        .filter((_, index) => !started.has(index))
+        .forEach(item => onUpdate({ ...item, state: 'cancelled' }));
+    }
+  }
+
+  private async processItem(
+    initial: BatchItem,
+    file: File,
+    options: BatchOptions,
+    onUpdate: (item: BatchItem) => void,
+    signal?: AbortSignal
+  ) {
+    let item = initial;
+    const update = (changes: Partial<BatchItem>) => {
+      item = { ...item, ...changes };
+      onUpdate(item);
+    };
+    const onProgress = (status: SagaStatus) => update({ saga_status: status.status });
+
+    try {
+      update({ state: 'uploading', error: null, review_reasons: [] });
+      // Same checks and downscaling as a single upload, without the manual crop
+      const upload = await imagePreflightService.prepare(file);
+      signal?.throwIfAborted();
+      update({ source_dpi: item.raster_dpi ? item.raster_dpi * upload.scale : null });
+      const workflow = await apiService.startWorkflow(upload.file, signal);
+      update({ state: 'processing', saga_id: workflow.saga_id, saga_status: workflow.status });
+
+      const processed = await apiService.waitForWorkflowStatus(
+        workflow.saga_id,
+        ['awaiting_enhancement_selection'],
+        onProgress,
+        signal
+      );
+      const result = apiService.toProcessingResult(processed);
+      update({ bed_count: result.bed_data.length });
+
+      const plotData = result.enhanced_colors?.[options.enhancementMethod];
+      if (!plotData || plotData.length === 0) {
+        throw new Error(`Enhancement "${options.enhancementMethod}" is not available for this sketch`);
+      }
+
+      await apiService.submitEnhancementSelection(workflow.saga_id, options.enhancementMethod, onProgress, signal);
+
+      if (!options.template) {
+        update({ state: 'awaiting_clustering', review_reasons: ['Needs manual clustering'] });
+        return;
+      }
+
+      const evaluation = evaluateTemplate(options.template, buildProjectionSpace(plotData, options.enhancementMethod));
+      const reviewReasons = templateReviewReasons(evaluation, result.bed_data.length, options.minCoveragePercent);
+      update({ clustered_beds: evaluation.coveredBeds, review_reasons: reviewReasons });
+
+      // Nothing to export; leave the saga waiting so it can be clustered by hand
+      if (evaluation.coveredBeds === 0) {
+        update({ state: 'awaiting_clustering' });
+        return;
+      }
+
+      const clustersData = toBedIdClusters(
+        Object.fromEntries(Object.entries(evaluation.clusters).filter(([, bedIndices]) => bedIndices.length > 0)),
+        result.bed_data.map(bed => bed.bed_id)
+      );
+      const clusterMetadata = Object.fromEntries(
+        options.template.clusters
+          .filter(cluster => clustersData[cluster.id] !== undefined)
+          .map(({ id, ...metadata }) => [String(id), metadata])
+      );
+
+      update({ state: 'clustering' });
+      await apiService.submitClustering(workflow.saga_id, clustersData, clusterMetadata, null, onProgress, signal);
+      update({ state: 'completed' });
+    } catch (err: unknown) {
+      if (isAbortError(err)) {
+        update({ state: 'cancelled' });
+        // Clean up the backend session of a saga that was still running
+        if (item.saga_id) {
+          apiService.cancelWorkflow(item.saga_id).catch(cancelErr =>
+            console.warn('Failed to cancel batch saga:', cancelErr)
+          );
+        }
+        return;
+      }
+      const detail = (err as { response?: { data?: { detail?: string } } })?.response?.data?.detail;
+      update({ state: 'failed', error: detail || (err instanceof Error ? err.message : 'Processing failed') });
+      console.error(`Batch processing of ${file.name} failed:`, err);
+    }
+  }
+}
+
+export const batchService = new BatchService();
+
+export type { BatchOptions };
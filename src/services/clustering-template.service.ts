@@ -0,0 +1,39 @@
+// SketchToCad-Frontend/src/services/clustering-template.service.ts
+import { ClusteringTemplate } from '../app/types/clustering/ClusteringTemplate';
+import {
+  isLocalDatabaseAvailable,
+  openLocalDatabase,
+  TEMPLATE_STORE,
+  toPromise
+} from './local-database.service';
+
+/**
+ * Named clustering templates kept in IndexedDB next to the plant library.
+ */
+class ClusteringTemplateService {
+  isAvailable(): boolean {
+    return isLocalDatabaseAvailable();
+  }
+
+  // Newest first
+  async listTemplates(): Promise<ClusteringTemplate[]> {
+    const db = await openLocalDatabase();
+    const templates = await toPromise<ClusteringTemplate[]>(
+      db.transaction(TEMPLATE_STORE, 'readonly').objectStore(TEMPLATE_STORE).getAll()
+    );
+    return templates.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async saveTemplate(template: ClusteringTemplate): Promise<ClusteringTemplate> {
+    const db = await openLocalDatabase();
+    await toPromise(db.transaction(TEMPLATE_STORE, 'readwrite').objectStore(TEMPLATE_STORE).put(template));
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const db = await openLocalDatabase();
+    await toPromise(db.transaction(TEMPLATE_STORE, 'readwrite').objectStore(TEMPLATE_STORE).delete(id));
+  }
+}
+
+export const clusteringTemplateService = new ClusteringTemplateService();
@@ -0,0 +1,230 @@
+// SketchToCad-Frontend/src/services/document-raster.service.ts
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { IFD } from 'utif';
+import { DocumentPageInfo, RasterisedPage } from '../app/types/image/DocumentPage';
+import { IMAGE_CONFIG } from '../config/image.config';
+import { ImagePreflightError } from './image-preflight.service';
+import { canvasToBlob } from '../utils/image-preflight.utils';
+import {
+  DocumentType,
+  effectiveDpi,
+  isTiffPage,
+  pageFileName,
+  POINTS_PER_INCH,
+  rasterSize,
+  sniffDocumentType,
+  tiffPageInfo
+} from '../utils/document-raster.utils';
+
+export const DPI_OPTIONS = [100, 150, 200, 300, 400, 600];
+const DEFAULT_DPI = 200;
+const DPI_STORAGE_KEY = 'sketchtocad.rasterDpi';
+
+// An opened PDF or TIFF whose pages can be rendered on demand
+export interface RasterDocument {
+  type: DocumentType;
+  pages: DocumentPageInfo[];
+  // Draws a page at exactly width × height pixels
+  renderPage: (index: number, width: number, height: number) => Promise<HTMLCanvasElement>;
+  renderThumbnail: (index: number, maxSize: number) => Promise<Blob>;
+  close: () => void;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const thumbnailSize = (page: DocumentPageInfo, maxSize: number) => {
+  const width = page.widthInches ?? page.pixelWidth ?? 1;
+  const height = page.heightInches ?? page.pixelHeight ?? 1;
+  const scale = maxSize / Math.max(width, height);
+  return { width: width * scale, height: height * scale };
+};
+
+const openPdf = async (file: File): Promise<RasterDocument> => {
+  // Loaded on demand: pdf.js is large and only needed for PDF uploads
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerPort) {
+    pdfjs.GlobalWorkerOptions.workerPort = new Worker(
+      new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url),
+      { type: 'module' }
+    );
+  }
+
+  const pdf: PDFDocumentProxy = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: DocumentPageInfo[] = [];
+  for (let i = 0; i < pdf.numPages; i++) {
+    const viewport = (await pdf.getPage(i + 1)).getViewport({ scale: 1 });
+    pages.push({
+      index: i,
+      widthInches: viewport.width / POINTS_PER_INCH,
+      heightInches: viewport.height / POINTS_PER_INCH,
+      pixelWidth: null,
+      pixelHeight: null,
+      nativeDpi: null
+    });
+  }
+
+  const renderPage = async (index: number, width: number, height: number) => {
+    const page = await pdf.getPage(index + 1);
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(width / base.width, height / base.height) });
+    const canvas = createCanvas(viewport.width, viewport.height);
+    await page.render({ canvas, viewport, background: '#ffffff' }).promise;
+    return canvas;
+  };
+
+  return {
+    type: 'pdf',
+    pages,
+    renderPage,
+    renderThumbnail: async (index, maxSize) => {
+      const size = thumbnailSize(pages[index], maxSize);
+      return canvasToBlob(await renderPage(index, size.width, size.height), 'image/png', 1);
+    },
+    close: () => {
+      pdf.destroy();
+    }
+  };
+};
+
+const openTiff = async (file: File): Promise<RasterDocument> => {
+  const UTIF = await import('utif');
+  const buffer = await file.arrayBuffer();
+  const ifds: IFD[] = UTIF.decode(buffer).filter(isTiffPage);
+  const pages = ifds.map((ifd, index) => tiffPageInfo(ifd, index));
+
+  // Decoded pixels of the last page used, since thumbnails and renders hit the same page in a row
+  let decoded: { index: number; canvas: HTMLCanvasElement } | null = null;
+  const decodePage = (index: number) => {
+    if (decoded?.index === index) return decoded.canvas;
+
+    const ifd = ifds[index];
+    UTIF.decodeImage(buffer, ifd);
+    const canvas = createCanvas(ifd.width, ifd.height);
+    const context = canvas.getContext('2d')!;
+    context.putImageData(new ImageData(new Uint8ClampedArray(UTIF.toRGBA8(ifd)), ifd.width, ifd.height), 0, 0);
+    // The RGBA copy is on the canvas now; drop UTIF's buffer
+    ifd.data = new Uint8Array(0);
+    decoded = { index, canvas };
+    return canvas;
+  };
+
+  const renderPage = async (index: number, width: number, height: number) => {
+    const source = decodePage(index);
+    if (source.width === Math.round(width) && source.height === Math.round(height)) return source;
+
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  };
+
+  return {
+    type: 'tiff',
+    pages,
+    renderPage,
+    renderThumbnail: async (index, maxSize) => {
+      const size = thumbnailSize(pages[index], maxSize);
+      return canvasToBlob(await renderPage(index, size.width, size.height), 'image/png', 1);
+    },
+    close: () => {
+      decoded = null;
+    }
+  };
+};
+
+/**
+ * Opens PDFs and multi-page TIFFs in the browser and renders selected pages
+ * as images at a chosen DPI, each to be uploaded as its own sketch.
+ */
+class DocumentRasterService {
+  // Null for anything that is not a PDF or TIFF, judged by content
+  async detect(file: File): Promise<DocumentType | null> {
+    return sniffDocumentType(new Uint8Array(await file.slice(0, 4).arrayBuffer()));
+  }
+
+  async open(file: File): Promise<RasterDocument> {
+    const type = await this.detect(file);
+    if (file.size > IMAGE_CONFIG.maxInputBytes) {
+      throw new ImagePreflightError(`${file.name} is too large to open in the browser.`);
+    }
+
+    let opened: RasterDocument;
+    try {
+      if (type === 'pdf') opened = await openPdf(file);
+      else if (type === 'tiff') opened = await openTiff(file);
+      else throw new Error('Unsupported document type');
+    } catch (err: unknown) {
+      console.error(`Opening ${file.name} failed:`, err);
+      const protectedPdf = (err as { name?: string })?.name === 'PasswordException';
+      throw new ImagePreflightError(protectedPdf
+        ? `${file.name} is password protected. Remove the password and try again.`
+        : `${file.name} could not be read as a ${type === 'tiff' ? 'TIFF' : 'PDF'} file.`);
+    }
+
+    if (opened.pages.length === 0) {
+      opened.close();
+      throw new ImagePreflightError(`${file.name} has no pages.`);
+    }
+    return opened;
+  }
+
+  /**
+   * Renders the given pages (zero-based) at up to `dpi`, one file per page.
+   * The DPI is lowered per page when needed to stay within the megapixel limit.
+   */
+  async rasterise(
+    file: File,
+    raster: RasterDocument,
+    pageIndexes: number[],
+    dpi: number,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<RasterisedPage[]> {
+    const pages: RasterisedPage[] = [];
+    for (const index of pageIndexes) {
+      onProgress?.(pages.length, pageIndexes.length);
+      const page = raster.pages[index];
+      const pageDpi = effectiveDpi(page, dpi, IMAGE_CONFIG.maxMegapixels);
+      const size = rasterSize(page, pageDpi, IMAGE_CONFIG.maxMegapixels);
+
+      const canvas = await raster.renderPage(index, size.width, size.height);
+      const blob = await canvasToBlob(canvas, IMAGE_CONFIG.outputType, 0.95);
+      const extension = IMAGE_CONFIG.outputType.split('/')[1].replace('jpeg', 'jpg');
+      pages.push({
+        file: new File([blob], pageFileName(file.name, index + 1, raster.pages.length, extension), {
+          type: IMAGE_CONFIG.outputType
+        }),
+        pageNumber: index + 1,
+        dpi: pageDpi
+      });
+    }
+    onProgress?.(pages.length, pageIndexes.length);
+    return pages;
+  }
+
+  getPreferredDpi(): number {
+    if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_DPI;
+
+    const stored = Number(window.localStorage.getItem(DPI_STORAGE_KEY));
+    return DPI_OPTIONS.includes(stored) ? stored : DEFAULT_DPI;
+  }
+
+  setPreferredDpi(dpi: number) {
+    if (typeof window === 'undefined' || !window.localStorage) return;
+
+    try {
+      window.localStorage.setItem(DPI_STORAGE_KEY, String(dpi));
+    } catch (error) {
+      console.warn('Failed to remember raster DPI:', error);
+    }
+  }
+}
+
+export const documentRasterService = new DocumentRasterService();
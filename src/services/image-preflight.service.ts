@@ -0,0 +1,206 @@
+// SketchToCad-Frontend/src/services/image-preflight.service.ts
+import { IMAGE_CONFIG } from '../config/image.config';
+import { ImageDimensions, PreflightResult, PreflightTransform } from '../app/types/image/ImagePreflight';
+import {
+  decodeImage,
+  formatBytes,
+  FULL_CROP,
+  outputDimensions,
+  PreflightRequest,
+  PreflightResponse,
+  readHeaderDimensions,
+  releaseDecodedImage,
+  renderImage,
+  RenderOptions,
+  sniffImageType,
+  validateDimensions,
+  validateImageFile
+} from '../utils/image-preflight.utils';
+
+// A sketch that should not be uploaded; the message is meant for the user
+export class ImagePreflightError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImagePreflightError';
+  }
+}
+
+type PreflightPayload =
+  | { type: 'inspect'; key: string; file: Blob }
+  | { type: 'render'; key: string; file: Blob; transform: PreflightTransform; options: RenderOptions }
+  | { type: 'release'; key: string };
+
+// Enough for a JPEG frame header behind EXIF data and an embedded thumbnail
+const HEADER_BYTES = 256 * 1024;
+
+const fileKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+/**
+ * Validates sketches and prepares them for upload (EXIF orientation, rotation,
+ * crop, downscaling). Decoding runs in a Web Worker when the browser supports
+ * OffscreenCanvas there, and on the main thread otherwise.
+ */
+class ImagePreflightService {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (response: PreflightResponse) => void; reject: (err: Error) => void }>();
+
+  private getWorker(): Worker | null {
+    if (this.workerFailed || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+      return null;
+    }
+    if (!this.worker) {
+      try {
+        this.worker = new Worker(new URL('../workers/image-preflight.worker.ts', import.meta.url));
+        this.worker.onmessage = (event: MessageEvent<PreflightResponse>) => {
+          this.pending.get(event.data.id)?.resolve(event.data);
+          this.pending.delete(event.data.id);
+        };
+        this.worker.onerror = (event) => {
+          console.warn('Image preflight worker failed, continuing on the main thread:', event.message);
+          this.workerFailed = true;
+          this.worker?.terminate();
+          this.worker = null;
+          this.pending.forEach(({ reject }) => reject(new Error('Image preflight worker failed')));
+          this.pending.clear();
+        };
+      } catch (error) {
+        console.warn('Could not start image preflight worker:', error);
+        this.workerFailed = true;
+        return null;
+      }
+    }
+    return this.worker;
+  }
+
+  private async runOnMainThread(payload: PreflightPayload): Promise<PreflightResponse> {
+    const id = -1;
+    try {
+      if (payload.type === 'release') {
+        releaseDecodedImage(payload.key);
+        return { id, ok: true };
+      }
+      const bitmap = await decodeImage(payload.key, payload.file);
+      if (payload.type === 'inspect') {
+        return { id, ok: true, dimensions: { width: bitmap.width, height: bitmap.height } };
+      }
+      return { id, ok: true, result: await renderImage(bitmap, payload.transform, payload.options) };
+    } catch (err: unknown) {
+      return { id, ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  private async send(payload: PreflightPayload): Promise<PreflightResponse> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.runOnMainThread(payload);
+    }
+
+    const id = this.nextId++;
+    try {
+      return await new Promise<PreflightResponse>((resolve, reject) => {
+        this.pending.set(id, { resolve, reject });
+        worker.postMessage({ ...payload, id } as PreflightRequest);
+      });
+    } catch {
+      // The worker died mid-request; getWorker now returns null
+      return this.runOnMainThread(payload);
+    }
+  }
+
+  /**
+   * Checks size, content and dimensions of a file the user picked and returns
+   * its upright dimensions. Throws ImagePreflightError with a readable reason.
+   * The size in the header is checked first, so oversized images are refused
+   * before decoding allocates their full bitmap.
+   */
+  async inspect(file: File): Promise<ImageDimensions> {
+    const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    const type = sniffImageType(header);
+    const fileError = validateImageFile(file, type, IMAGE_CONFIG.acceptedTypes, IMAGE_CONFIG);
+    if (fileError) {
+      throw new ImagePreflightError(fileError);
+    }
+
+    const headerDimensions = type ? readHeaderDimensions(header, type) : null;
+    const headerError = headerDimensions && validateDimensions(file.name, headerDimensions, IMAGE_CONFIG);
+    if (headerError) {
+      throw new ImagePreflightError(headerError);
+    }
+
+    const response = await this.send({ type: 'inspect', key: fileKey(file), file });
+    if (!response.ok || !response.dimensions) {
+      console.warn(`Decoding ${file.name} failed:`, response.ok ? 'no dimensions' : response.error);
+      throw new ImagePreflightError(`${file.name} could not be opened as an image; the file may be damaged.`);
+    }
+
+    const dimensionError = validateDimensions(file.name, response.dimensions, IMAGE_CONFIG);
+    if (dimensionError) {
+      throw new ImagePreflightError(dimensionError);
+    }
+    return response.dimensions;
+  }
+
+  async render(file: File, transform: PreflightTransform, maxDimension: number): Promise<PreflightResult> {
+    const response = await this.send({
+      type: 'render',
+      key: fileKey(file),
+      file,
+      transform,
+      options: {
+        maxDimension,
+        outputType: IMAGE_CONFIG.outputType,
+        outputQuality: IMAGE_CONFIG.outputQuality
+      }
+    });
+    if (!response.ok || !response.result) {
+      throw new ImagePreflightError(
+        `Preparing ${file.name} failed: ${response.ok ? 'no image was produced' : response.error}`
+      );
+    }
+    return response.result;
+  }
+
+  /**
+   * The file to upload: rendered at maxDimension and named after the original.
+   * Throws when the result is still larger than the gateway accepts.
+   */
+  async toUploadFile(file: File, transform: PreflightTransform, maxDimension: number): Promise<File> {
+    const result = await this.render(file, transform, maxDimension);
+    if (result.blob.size > IMAGE_CONFIG.maxUploadBytes) {
+      throw new ImagePreflightError(
+        `The prepared image is ${formatBytes(result.blob.size)}, above the ${formatBytes(IMAGE_CONFIG.maxUploadBytes)} ` +
+        'upload limit. Choose a lower maximum resolution or crop further.'
+      );
+    }
+
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    const extension = IMAGE_CONFIG.outputType.split('/')[1].replace('jpeg', 'jpg');
+    return new File([result.blob], `${baseName}.${extension}`, { type: IMAGE_CONFIG.outputType });
+  }
+
+  /**
+   * Unattended path for batch runs: validate, straighten by EXIF and
+   * downscale. `scale` is the downscaling factor applied to the pixels.
+   */
+  async prepare(file: File, maxDimension = IMAGE_CONFIG.maxDimension): Promise<{ file: File; scale: number }> {
+    const dimensions = await this.inspect(file);
+    const transform = { rotation: 0, crop: FULL_CROP };
+    try {
+      return {
+        file: await this.toUploadFile(file, transform, maxDimension),
+        scale: outputDimensions(dimensions, transform, maxDimension).scale
+      };
+    } finally {
+      this.release(file);
+    }
+  }
+
+  // Frees the decoded bitmap kept for previews of this file
+  release(file: File) {
+    this.send({ type: 'release', key: fileKey(file) }).catch(() => undefined);
+  }
+}
+
+export const imagePreflightService = new ImagePreflightService();
@@ -0,0 +1,68 @@
+// SketchToCad-Frontend/src/services/local-database.service.ts
+//
+// The browser-side IndexedDB database shared by the plant library and the
+// clustering templates. Bump DB_VERSION whenever a store is added.
+
+const DB_NAME = 'sketchtocad';
+const DB_VERSION = 2;
+
+export const PLANT_STORE = 'plants';
+export const TEMPLATE_STORE = 'templates';
+
+const STORES = [PLANT_STORE, TEMPLATE_STORE];
+
+// Wraps a single IndexedDB request in a promise
+export const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+export const isLocalDatabaseAvailable = (): boolean =>
+  typeof window !== 'undefined' && !!window.indexedDB;
+
+export const openLocalDatabase = (): Promise<IDBDatabase> => {
+  if (!isLocalDatabaseAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES
+          .filter(store => !request.result.objectStoreNames.contains(store))
+          .forEach(store => request.result.createObjectStore(store, { keyPath: 'id' }));
+      };
+      request.onsuccess = () => {
+        // Step aside when another tab upgrades the database, and reopen on the next call
+        request.result.onversionchange = () => {
+          request.result.close();
+          database = null;
+        };
+        resolve(request.result);
+      };
+      // An older version is still open in another tab and did not close for the upgrade
+      request.onblocked = () => {
+        database = null;
+        reject(new Error('The local database is in use by another tab of this app. Close it and try again.'));
+      };
+      request.onerror = () => {
+        // Allow a later call to retry, e.g. after the user unblocks storage
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return database;
+};
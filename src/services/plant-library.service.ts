@@ -0,0 +1,54 @@
+// SketchToCad-Frontend/src/services/plant-library.service.ts
+import { PlantSpecies } from '../app/types/plants/PlantSpecies';
+import {
+  isLocalDatabaseAvailable,
+  openLocalDatabase,
+  PLANT_STORE,
+  toPromise,
+  transactionDone
+} from './local-database.service';
+
+/**
+ * Plant species library kept in the browser's IndexedDB, so presets survive
+ * across projects without a backend round trip.
+ */
+class PlantLibraryService {
+  isAvailable(): boolean {
+    return isLocalDatabaseAvailable();
+  }
+
+  async listPlants(): Promise<PlantSpecies[]> {
+    const db = await openLocalDatabase();
+    const plants = await toPromise<PlantSpecies[]>(
+      db.transaction(PLANT_STORE, 'readonly').objectStore(PLANT_STORE).getAll()
+    );
+    return plants.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async savePlant(plant: PlantSpecies): Promise<PlantSpecies> {
+    const saved = { ...plant, updated_at: new Date().toISOString() };
+    const db = await openLocalDatabase();
+    await toPromise(db.transaction(PLANT_STORE, 'readwrite').objectStore(PLANT_STORE).put(saved));
+    return saved;
+  }
+
+  async deletePlant(id: string): Promise<void> {
+    const db = await openLocalDatabase();
+    await toPromise(db.transaction(PLANT_STORE, 'readwrite').objectStore(PLANT_STORE).delete(id));
+  }
+
+  /**
+   * Adds or replaces entries by id in one transaction, so a failing import
+   * leaves the library untouched.
+   */
+  async importPlants(plants: PlantSpecies[]): Promise<number> {
+    const db = await openLocalDatabase();
+    const transaction = db.transaction(PLANT_STORE, 'readwrite');
+    const store = transaction.objectStore(PLANT_STORE);
+    plants.forEach(plant => store.put(plant));
+    await transactionDone(transaction);
+    return plants.length;
+  }
+}
+
+export const plantLibraryService = new PlantLibraryService();
@@ -0,0 +1,205 @@
+// SketchToCad-Frontend/src/services/session.service.ts
+import { Polygon } from '../app/types/geometry/Polygon';
+import { ClusterDefinition } from '../app/types/clustering/ClusterDefinition';
+import { AreaUnit, ScaleCalibration } from '../app/types/measurement/ScaleCalibration';
+
+interface StoredSession {
+  saga_id: string;
+  enhancement_method: string | null;
+  // Resolution of the uploaded image when it came from a PDF/TIFF page; the basis for real-world scale
+  source_dpi: number | null;
+  // Pixels per metre set by the user; null while areas are shown in pixels
+  scale_calibration: ScaleCalibration | null;
+  polygons: Polygon[];
+  clusters: ClusterDefinition[];
+  // Beds assigned directly in sketch mode, by plot index
+  assignments: Record<number, number>;
+  // Outlier beds left out of every cluster, by plot index
+  excluded: number[];
+  updated_at: string;
+}
+
+// One entry per saga, so batch items opened in other tabs keep their own state
+const SESSION_KEY_PREFIX = 'sketchtocad.session.';
+const LAST_SAGA_STORAGE_KEY = 'sketchtocad.lastSaga';
+// Older sessions beyond this are dropped so local storage does not fill up
+const MAX_STORED_SESSIONS = 10;
+// Not tied to a saga: the unit a planner works in carries over to the next sketch
+const AREA_UNIT_STORAGE_KEY = 'sketchtocad.areaUnit';
+const SAGA_QUERY_PARAM = 'saga';
+
+const emptySession = (sagaId: string): StoredSession => ({
+  saga_id: sagaId,
+  enhancement_method: null,
+  source_dpi: null,
+  scale_calibration: null,
+  polygons: [],
+  clusters: [],
+  assignments: {},
+  excluded: [],
+  updated_at: new Date().toISOString()
+});
+
+class SessionService {
+  private isAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.localStorage;
+  }
+
+  private read(sagaId: string): StoredSession | null {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const raw = window.localStorage.getItem(SESSION_KEY_PREFIX + sagaId);
+      return raw ? (JSON.parse(raw) as StoredSession) : null;
+    } catch (error) {
+      console.warn('Failed to read stored session:', error);
+      return null;
+    }
+  }
+
+  private write(session: StoredSession) {
+    if (!this.isAvailable()) return;
+
+    try {
+      window.localStorage.setItem(SESSION_KEY_PREFIX + session.saga_id, JSON.stringify(session));
+    } catch (error) {
+      console.warn('Failed to persist session:', error);
+    }
+    this.prune();
+  }
+
+  private update(sagaId: string, changes: Partial<StoredSession>) {
+    const base = this.read(sagaId) || emptySession(sagaId);
+
+    this.write({ ...base, ...changes, saga_id: sagaId, updated_at: new Date().toISOString() });
+  }
+
+  private setLastSagaId(sagaId: string) {
+    try {
+      window.localStorage.setItem(LAST_SAGA_STORAGE_KEY, sagaId);
+    } catch (error) {
+      console.warn('Failed to remember the last saga:', error);
+    }
+  }
+
+  // Keeps the most recently updated sessions and drops the rest
+  private prune() {
+    const storage = window.localStorage;
+    const sessions: { key: string; updatedAt: string }[] = [];
+
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (!key?.startsWith(SESSION_KEY_PREFIX)) continue;
+
+      try {
+        sessions.push({ key, updatedAt: (JSON.parse(storage.getItem(key) || '{}') as StoredSession).updated_at || '' });
+      } catch {
+        sessions.push({ key, updatedAt: '' });
+      }
+    }
+
+    sessions
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(MAX_STORED_SESSIONS)
+      .forEach(({ key }) => storage.removeItem(key));
+  }
+
+  /**
+   * Saga to resume on load. The URL wins over local storage so a shared
+   * `?saga=<id>` link always opens the saga it points at.
+   */
+  getResumableSagaId(): string | null {
+    if (typeof window === 'undefined') return null;
+
+    const fromUrl = new URLSearchParams(window.location.search).get(SAGA_QUERY_PARAM);
+    if (fromUrl) return fromUrl;
+    return this.isAvailable() ? window.localStorage.getItem(LAST_SAGA_STORAGE_KEY) : null;
+  }
+
+  startSession(sagaId: string) {
+    this.write(emptySession(sagaId));
+    if (this.isAvailable()) this.setLastSagaId(sagaId);
+    this.setSagaInUrl(sagaId);
+  }
+
+  /**
+   * Re-attaches to a saga after a reload, keeping whatever was stored for it.
+   */
+  resumeSession(sagaId: string): StoredSession {
+    this.update(sagaId, {});
+    if (this.isAvailable()) this.setLastSagaId(sagaId);
+    this.setSagaInUrl(sagaId);
+    return this.read(sagaId) || emptySession(sagaId);
+  }
+
+  saveSourceDpi(sagaId: string, dpi: number | null) {
+    this.update(sagaId, { source_dpi: dpi });
+  }
+
+  saveScaleCalibration(sagaId: string, calibration: ScaleCalibration | null) {
+    this.update(sagaId, { scale_calibration: calibration });
+  }
+
+  saveEnhancementMethod(sagaId: string, method: string | null) {
+    this.update(sagaId, { enhancement_method: method });
+  }
+
+  savePolygons(sagaId: string, polygons: Polygon[]) {
+    this.update(sagaId, { polygons });
+  }
+
+  saveClusters(sagaId: string, clusters: ClusterDefinition[]) {
+    this.update(sagaId, { clusters });
+  }
+
+  saveAssignments(sagaId: string, assignments: Record<number, number>) {
+    this.update(sagaId, { assignments });
+  }
+
+  saveExcluded(sagaId: string, excluded: number[]) {
+    this.update(sagaId, { excluded });
+  }
+
+  getAreaUnit(): AreaUnit {
+    if (!this.isAvailable()) return 'm2';
+    return window.localStorage.getItem(AREA_UNIT_STORAGE_KEY) === 'ft2' ? 'ft2' : 'm2';
+  }
+
+  setAreaUnit(unit: AreaUnit) {
+    if (!this.isAvailable()) return;
+
+    try {
+      window.localStorage.setItem(AREA_UNIT_STORAGE_KEY, unit);
+    } catch (error) {
+      console.warn('Failed to remember area unit:', error);
+    }
+  }
+
+  /**
+   * Forgets a saga and the pointer used to resume on load. Sessions of other
+   * sagas stay until pruned, so batch items can still be opened from their links.
+   */
+  clearSession(sagaId: string | null) {
+    if (this.isAvailable()) {
+      if (sagaId) window.localStorage.removeItem(SESSION_KEY_PREFIX + sagaId);
+      window.localStorage.removeItem(LAST_SAGA_STORAGE_KEY);
+    }
+    this.setSagaInUrl(null);
+  }
+
+  private setSagaInUrl(sagaId: string | null) {
+    if (typeof window === 'undefined') return;
+
+    const url = new URL(window.location.href);
+    if (sagaId) {
+      url.searchParams.set(SAGA_QUERY_PARAM, sagaId);
+    } else {
+      url.searchParams.delete(SAGA_QUERY_PARAM);
+    }
+    window.history.replaceState(window.history.state, '', url.toString());
+  }
+}
+
+export const sessionService = new SessionService();
+
+export type { StoredSession };
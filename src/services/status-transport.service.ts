@@ -0,0 +1,317 @@
+// SketchToCad-Frontend/src/services/status-transport.service.ts
+import type { SagaStatus } from './api.service';
+
+type ProgressCallback = (status: SagaStatus) => void;
+
+interface StatusTransport {
+  readonly name: string;
+  waitForStatus(
+    sagaId: string,
+    targetStatuses: string[],
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SagaStatus>;
+}
+
+interface PollingOptions {
+  initialIntervalMs: number;
+  maxIntervalMs: number;
+  multiplier: number;
+  jitter: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Raised when a push channel cannot be opened or drops mid-saga, so the
+ * caller can carry on with another transport instead of failing the workflow.
+ */
+class PushChannelError extends Error {
+  constructor(transport: string, message: string) {
+    super(`${transport} channel unavailable: ${message}`);
+    this.name = 'PushChannelError';
+  }
+}
+
+const TIMEOUT_MESSAGE = 'Workflow timeout - exceeded maximum wait time';
+
+function createAbortError(): DOMException {
+  return new DOMException('Workflow operation was cancelled', 'AbortError');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Returns true once a target status is reached, throws if the saga failed
+function isSettled(status: SagaStatus, targetStatuses: string[]): boolean {
+  if (targetStatuses.includes(status.status)) {
+    return true;
+  }
+
+  if (status.status === 'failed' || status.status === 'compensated') {
+    throw new Error(`Workflow failed: ${status.error_message || 'Unknown error'}`);
+  }
+
+  return false;
+}
+
+class PollingStatusTransport implements StatusTransport {
+  readonly name = 'polling';
+
+  constructor(
+    private fetchStatus: (sagaId: string, signal?: AbortSignal) => Promise<SagaStatus>,
+    private options: PollingOptions
+  ) {}
+
+  private nextDelay(attempt: number): number {
+    const { initialIntervalMs, maxIntervalMs, multiplier, jitter } = this.options;
+    const base = Math.min(maxIntervalMs, initialIntervalMs * Math.pow(multiplier, attempt));
+    const spread = base * jitter;
+    return Math.max(0, base - spread + Math.random() * spread * 2);
+  }
+
+  async waitForStatus(
+    sagaId: string,
+    targetStatuses: string[],
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SagaStatus> {
+    const deadline = Date.now() + this.options.maxWaitMs;
+    let attempt = 0;
+    let lastProgressKey: string | null = null;
+
+    while (Date.now() < deadline) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const status = await this.fetchStatus(sagaId, signal);
+
+      if (onProgress) {
+        onProgress(status);
+      }
+
+      if (isSettled(status, targetStatuses)) {
+        return status;
+      }
+
+      // Back off only while nothing changes; any saga progress resets the delay
+      const progressKey = `${status.status}:${status.current_step}`;
+      attempt = progressKey === lastProgressKey ? attempt + 1 : 0;
+      lastProgressKey = progressKey;
+
+      const delay = Math.min(this.nextDelay(attempt), Math.max(0, deadline - Date.now()));
+      await sleep(delay, signal);
+    }
+
+    throw new Error(TIMEOUT_MESSAGE);
+  }
+}
+
+/**
+ * Shared plumbing for push transports: one message per saga status change,
+ * each carrying the full `SagaStatus` as JSON.
+ */
+abstract class PushStatusTransport implements StatusTransport {
+  abstract readonly name: string;
+
+  constructor(
+    protected urlFor: (sagaId: string) => string,
+    private maxWaitMs: number
+  ) {}
+
+  protected abstract open(
+    url: string,
+    handlers: {
+      onMessage: (data: string) => void;
+      onError: (message: string) => void;
+    }
+  ): () => void;
+
+  waitForStatus(
+    sagaId: string,
+    targetStatuses: string[],
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SagaStatus> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      let close: () => void = () => {};
+      let settled = false;
+
+      const finish = (callback: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        close();
+        callback();
+      };
+
+      const onAbort = () => finish(() => reject(createAbortError()));
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const timer = setTimeout(
+        () => finish(() => reject(new Error(TIMEOUT_MESSAGE))),
+        this.maxWaitMs
+      );
+
+      close = this.open(this.urlFor(sagaId), {
+        onMessage: (data) => {
+          let status: SagaStatus;
+          try {
+            status = JSON.parse(data);
+          } catch {
+            finish(() => reject(new PushChannelError(this.name, 'malformed status message')));
+            return;
+          }
+
+          if (onProgress) {
+            onProgress(status);
+          }
+
+          try {
+            if (isSettled(status, targetStatuses)) {
+              finish(() => resolve(status));
+            }
+          } catch (error) {
+            finish(() => reject(error));
+          }
+        },
+        onError: (message) => finish(() => reject(new PushChannelError(this.name, message)))
+      });
+    });
+  }
+}
+
+class EventSourceStatusTransport extends PushStatusTransport {
+  readonly name = 'sse';
+
+  protected open(
+    url: string,
+    handlers: { onMessage: (data: string) => void; onError: (message: string) => void }
+  ): () => void {
+    if (typeof EventSource === 'undefined') {
+      handlers.onError('EventSource is not supported');
+      return () => {};
+    }
+
+    const source = new EventSource(url);
+    source.onmessage = (event) => handlers.onMessage(event.data);
+    // EventSource would silently reconnect forever; treat any error as a lost channel
+    source.onerror = () => handlers.onError('connection failed or closed');
+
+    return () => source.close();
+  }
+}
+
+class WebSocketStatusTransport extends PushStatusTransport {
+  readonly name = 'websocket';
+
+  protected open(
+    url: string,
+    handlers: { onMessage: (data: string) => void; onError: (message: string) => void }
+  ): () => void {
+    if (typeof WebSocket === 'undefined') {
+      handlers.onError('WebSocket is not supported');
+      return () => {};
+    }
+
+    const socket = new WebSocket(toWebSocketUrl(url));
+    socket.onmessage = (event) => handlers.onMessage(String(event.data));
+    socket.onerror = () => handlers.onError('connection failed');
+    socket.onclose = (event) => handlers.onError(`connection closed (${event.code})`);
+
+    return () => {
+      socket.onclose = null;
+      socket.close();
+    };
+  }
+}
+
+/**
+ * Uses the push channel while the gateway offers one and falls back to
+ * polling otherwise. A gateway that never answered on the push channel is
+ * not asked again for the rest of the page session.
+ */
+class FallbackStatusTransport implements StatusTransport {
+  readonly name: string;
+  private pushUnavailable = false;
+
+  constructor(
+    private push: StatusTransport,
+    private fallback: StatusTransport
+  ) {
+    this.name = `${push.name}+${fallback.name}`;
+  }
+
+  async waitForStatus(
+    sagaId: string,
+    targetStatuses: string[],
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SagaStatus> {
+    if (this.pushUnavailable) {
+      return this.fallback.waitForStatus(sagaId, targetStatuses, onProgress, signal);
+    }
+
+    let receivedUpdate = false;
+    const trackProgress = (status: SagaStatus) => {
+      receivedUpdate = true;
+      if (onProgress) {
+        onProgress(status);
+      }
+    };
+
+    try {
+      return await this.push.waitForStatus(sagaId, targetStatuses, trackProgress, signal);
+    } catch (error) {
+      if (!(error instanceof PushChannelError)) {
+        throw error;
+      }
+
+      if (!receivedUpdate) {
+        this.pushUnavailable = true;
+      }
+      console.warn(`${error.message}; falling back to ${this.fallback.name}`);
+      return this.fallback.waitForStatus(sagaId, targetStatuses, onProgress, signal);
+    }
+  }
+}
+
+// Relative and http(s) URLs both map onto the matching ws(s) origin
+function toWebSocketUrl(url: string): string {
+  const absolute = new URL(url, typeof window !== 'undefined' ? window.location.href : 'http://localhost');
+  absolute.protocol = absolute.protocol === 'https:' ? 'wss:' : 'ws:';
+  return absolute.toString();
+}
+
+export {
+  PollingStatusTransport,
+  EventSourceStatusTransport,
+  WebSocketStatusTransport,
+  FallbackStatusTransport,
+  PushChannelError
+};
+
+export type { StatusTransport, PollingOptions, ProgressCallback };
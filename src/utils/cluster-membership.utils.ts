@@ -0,0 +1,81 @@
+// SketchToCad-Frontend/src/utils/cluster-membership.utils.ts
+//
+// Which beds the drawn polygons put into each cluster. Shared by the
+// clustering canvas and by templates applied without it (preview, batch runs).
+import { Polygon } from '../app/types/geometry/Polygon';
+import { createGridIndex, GridIndex, queryPolygon } from './spatial-index.utils';
+import { buildProjections, channelLabels, DEFAULT_PROJECTION_ID, Projection } from './projection.utils';
+
+// How polygons of one cluster drawn in different projections are combined
+export type ProjectionCombineMode = 'intersection' | 'union';
+
+export interface ProjectionSpace {
+  projections: Projection[];
+  // One spatial index per projection id
+  indexes: Map<string, GridIndex>;
+}
+
+// Every projection of the colour data with its index, as the canvas builds them
+export const buildProjectionSpace = (plotData: number[][], method: string): ProjectionSpace => {
+  const projections = buildProjections(plotData, channelLabels(method, plotData[0]?.length || 0));
+  return {
+    projections,
+    indexes: new Map(projections.map(p => [p.id, createGridIndex(p.x, p.y)]))
+  };
+};
+
+export const projectionKey = (polygon: Polygon) => polygon.projection || DEFAULT_PROJECTION_ID;
+
+// Beds inside each polygon, looked up through the index of the projection it was drawn in
+export const polygonMembership = (polygons: Polygon[], space: ProjectionSpace): Map<string, Set<number>> => {
+  const result = new Map<string, Set<number>>();
+  polygons.forEach(polygon => {
+    const projection = space.projections.find(p => p.id === projectionKey(polygon));
+    const index = space.indexes.get(projectionKey(polygon));
+    result.set(
+      polygon.id,
+      new Set(projection && index ? queryPolygon(index, projection.x, projection.y, polygon.points) : [])
+    );
+  });
+  return result;
+};
+
+/**
+ * Bed indices per cluster id, sorted. Polygons of a cluster drawn in the same
+ * projection are unioned; groups from different projections are combined
+ * according to combineMode. A bed may end up in several clusters.
+ */
+export const clusterMembersFromPolygons = (
+  polygons: Polygon[],
+  membership: Map<string, Set<number>>,
+  space: ProjectionSpace,
+  combineMode: ProjectionCombineMode
+): Record<string, number[]> => {
+  const groups: Record<string, Record<string, Polygon[]>> = {};
+  polygons.forEach(polygon => {
+    const clusterId = polygon.cluster_id.toString();
+    const key = projectionKey(polygon);
+    groups[clusterId] = groups[clusterId] || {};
+    groups[clusterId][key] = [...(groups[clusterId][key] || []), polygon];
+  });
+
+  const result: Record<string, number[]> = {};
+  Object.entries(groups).forEach(([clusterId, byProjection]) => {
+    // Beds inside any polygon of the group
+    const memberSets = Object.entries(byProjection).flatMap(([key, group]) => {
+      if (!space.projections.some(p => p.id === key)) return [];
+      return [new Set(group.flatMap(polygon => Array.from(membership.get(polygon.id) || [])))];
+    });
+
+    const [first, ...rest] = memberSets;
+    const members = !first
+      ? []
+      : combineMode === 'intersection'
+        ? Array.from(first).filter(bedIndex => rest.every(set => set.has(bedIndex)))
+        : Array.from(new Set(memberSets.flatMap(set => Array.from(set))));
+
+    result[clusterId] = members.sort((a, b) => a - b);
+  });
+
+  return result;
+};
@@ -0,0 +1,58 @@
+// SketchToCad-Frontend/src/utils/cluster.utils.ts
+import { ClusterDefinition } from '../app/types/clustering/ClusterDefinition';
+import { hslToHex } from './color.utils';
+
+// The original eight cluster colours, kept so existing sessions look the same
+const BASE_COLORS = [
+  '#FF3232', // Red
+  '#32FF32', // Green
+  '#3232FF', // Blue
+  '#FFFF32', // Yellow
+  '#FF32FF', // Magenta
+  '#32FFFF', // Cyan
+  '#FF9632', // Orange
+  '#9632FF', // Purple
+];
+
+// Golden-angle hue steps keep later colours apart from each other however many clusters there are
+export const defaultClusterColor = (clusterId: number): string => {
+  if (clusterId < BASE_COLORS.length) return BASE_COLORS[clusterId];
+
+  const step = clusterId - BASE_COLORS.length;
+  return hslToHex((step * 137.508 + 15) % 360, 0.75, step % 2 === 0 ? 0.5 : 0.38).toUpperCase();
+};
+
+export const createClusterDefinition = (clusterId: number): ClusterDefinition => ({
+  id: clusterId,
+  name: `Cluster ${clusterId + 1}`,
+  species: '',
+  planting_density: null,
+  color: defaultClusterColor(clusterId),
+  layer_name: `PLANTS_${clusterId + 1}`
+});
+
+// Definitions for the given ids, reusing existing ones and creating defaults for the rest
+export const ensureClusterDefinitions = (
+  clusters: ClusterDefinition[],
+  clusterIds: number[]
+): ClusterDefinition[] => {
+  const known = new Set(clusters.map(cluster => cluster.id));
+  const missing = Array.from(new Set(clusterIds))
+    .filter(clusterId => !known.has(clusterId))
+    .sort((a, b) => a - b)
+    .map(createClusterDefinition);
+
+  return missing.length > 0 ? [...clusters, ...missing] : clusters;
+};
+
+export const nextClusterId = (clusters: ClusterDefinition[]): number =>
+  clusters.reduce((max, cluster) => Math.max(max, cluster.id + 1), 0);
+
+// DXF layer names may not contain <>/\":;?*|,=` and are case-insensitive, so keep them upper case
+export const toLayerName = (value: string): string =>
+  value
+    .trim()
+    .replace(/[<>/\\":;?*|,=`]+/g, '')
+    .replace(/\s+/g, '_')
+    .toUpperCase()
+    .slice(0, 255);
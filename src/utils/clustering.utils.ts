@@ -0,0 +1,273 @@
+// SketchToCad-Frontend/src/utils/clustering.utils.ts
+//
+// Client-side clustering used to pre-fill cluster suggestions. Labels are
+// cluster indices starting at 0; -1 marks noise (DBSCAN only).
+import { createGridIndex } from './spatial-index.utils';
+
+export const NOISE_LABEL = -1;
+
+// Above this many points the silhouette score is estimated on a fixed sample
+const SILHOUETTE_SAMPLE_SIZE = 1500;
+
+// Small deterministic PRNG so repeated runs with the same settings agree
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const squaredDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return sum;
+};
+
+// Grid over the first two dimensions; a rectangle query bounds any full-dimensional radius search
+const indexPoints = (points: number[][]) => {
+  const xs = points.map(point => point[0] ?? 0);
+  const ys = points.map(point => point[1] ?? 0);
+  return { xs, ys, index: createGridIndex(xs, ys) };
+};
+
+// Scales every dimension to zero mean and unit variance so no channel dominates
+export const standardize = (points: number[][]): number[][] => {
+  if (points.length === 0) return [];
+
+  const dims = points[0].length;
+  const means = new Array(dims).fill(0);
+  const stds = new Array(dims).fill(0);
+
+  points.forEach(point => point.forEach((value, d) => { means[d] += value; }));
+  means.forEach((_, d) => { means[d] /= points.length; });
+  points.forEach(point => point.forEach((value, d) => { stds[d] += (value - means[d]) ** 2; }));
+  stds.forEach((_, d) => { stds[d] = Math.sqrt(stds[d] / points.length) || 1; });
+
+  return points.map(point => point.map((value, d) => (value - means[d]) / stds[d]));
+};
+
+export interface KMeansResult {
+  labels: number[];
+  centroids: number[][];
+  inertia: number;
+}
+
+// Lloyd's algorithm with k-means++ seeding
+export const kMeans = (points: number[][], k: number, maxIterations = 100, seed = 42): KMeansResult => {
+  const n = points.length;
+  if (n === 0 || k <= 0) return { labels: [], centroids: [], inertia: 0 };
+
+  const clusterCount = Math.min(k, n);
+  const random = createRandom(seed);
+  const centroids: number[][] = [points[Math.floor(random() * n)].slice()];
+  const nearest = points.map(point => squaredDistance(point, centroids[0]));
+
+  while (centroids.length < clusterCount) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    let target = random() * total;
+    let chosen = n - 1;
+    for (let i = 0; i < n; i++) {
+      target -= nearest[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+
+    const centroid = points[chosen].slice();
+    centroids.push(centroid);
+    points.forEach((point, i) => {
+      nearest[i] = Math.min(nearest[i], squaredDistance(point, centroid));
+    });
+  }
+
+  const labels = new Array(n).fill(0);
+  const dims = points[0].length;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+
+    points.forEach((point, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((centroid, c) => {
+        const distance = squaredDistance(point, centroid);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      });
+      if (labels[i] !== best) {
+        labels[i] = best;
+        changed = true;
+      }
+    });
+
+    const sums = centroids.map(() => new Array(dims).fill(0));
+    const counts = new Array(clusterCount).fill(0);
+    points.forEach((point, i) => {
+      counts[labels[i]]++;
+      point.forEach((value, d) => { sums[labels[i]][d] += value; });
+    });
+    sums.forEach((sum, c) => {
+      // Keep empty clusters where they were rather than collapsing them to the origin
+      if (counts[c] > 0) {
+        centroids[c] = sum.map(value => value / counts[c]);
+      }
+    });
+
+    if (!changed && iteration > 0) break;
+  }
+
+  const inertia = points.reduce((sum, point, i) => sum + squaredDistance(point, centroids[labels[i]]), 0);
+  return { labels, centroids, inertia };
+};
+
+/**
+ * Density-based clustering; points in sparse regions are labelled NOISE_LABEL.
+ * Neighbourhoods come from a grid over the first two dimensions, so only points
+ * within eps of the query on those axes get the full distance check.
+ */
+export const dbscan = (points: number[][], eps: number, minPoints: number): number[] => {
+  const n = points.length;
+  const epsSquared = eps * eps;
+  const labels = new Array(n).fill(undefined) as (number | undefined)[];
+  const { xs, ys, index } = indexPoints(points);
+  const neighbours = (i: number) =>
+    index.queryRect(xs[i] - eps, ys[i] - eps, xs[i] + eps, ys[i] + eps)
+      .filter(j => squaredDistance(points[i], points[j]) <= epsSquared);
+
+  let cluster = 0;
+  for (let i = 0; i < n; i++) {
+    if (labels[i] !== undefined) continue;
+
+    const seeds = neighbours(i);
+    if (seeds.length < minPoints) {
+      labels[i] = NOISE_LABEL;
+      continue;
+    }
+
+    labels[i] = cluster;
+    // Read through a head index; shift() re-indexes the whole queue on every call
+    const queue = seeds.filter(j => j !== i);
+    for (let head = 0; head < queue.length; head++) {
+      const j = queue[head];
+      if (labels[j] === NOISE_LABEL) labels[j] = cluster;
+      if (labels[j] !== undefined) continue;
+
+      labels[j] = cluster;
+      const expansion = neighbours(j);
+      if (expansion.length >= minPoints) {
+        expansion.forEach(k => {
+          if (labels[k] === undefined || labels[k] === NOISE_LABEL) queue.push(k);
+        });
+      }
+    }
+    cluster++;
+  }
+
+  return labels.map(label => label ?? NOISE_LABEL);
+};
+
+/**
+ * Mean silhouette coefficient in [-1, 1]; higher means tighter, better separated
+ * clusters. Noise points are ignored. Returns null when fewer than two clusters exist.
+ */
+export const silhouetteScore = (points: number[][], labels: number[], seed = 7): number | null => {
+  let indices = labels.flatMap((label, i) => label === NOISE_LABEL ? [] : [i]);
+  const clusters = new Set(indices.map(i => labels[i]));
+  if (clusters.size < 2) return null;
+
+  if (indices.length > SILHOUETTE_SAMPLE_SIZE) {
+    const random = createRandom(seed);
+    indices = indices
+      .map(i => ({ i, key: random() }))
+      .sort((a, b) => a.key - b.key)
+      .slice(0, SILHOUETTE_SAMPLE_SIZE)
+      .map(entry => entry.i);
+  }
+
+  let total = 0;
+  indices.forEach(i => {
+    const distanceSums = new Map<number, { sum: number; count: number }>();
+    indices.forEach(j => {
+      if (i === j) return;
+      const entry = distanceSums.get(labels[j]) || { sum: 0, count: 0 };
+      entry.sum += Math.sqrt(squaredDistance(points[i], points[j]));
+      entry.count++;
+      distanceSums.set(labels[j], entry);
+    });
+
+    const own = distanceSums.get(labels[i]);
+    if (!own || own.count === 0) return;
+
+    const a = own.sum / own.count;
+    let b = Infinity;
+    distanceSums.forEach((entry, label) => {
+      if (label !== labels[i]) b = Math.min(b, entry.sum / entry.count);
+    });
+
+    total += b === Infinity ? 0 : (b - a) / Math.max(a, b);
+  });
+
+  return total / indices.length;
+};
+
+export interface KEstimate {
+  k: number;
+  silhouette: number | null;
+  inertia: number;
+}
+
+// Runs k-means for each k in range and reports scores so the best can be picked
+export const estimateK = (points: number[][], minK = 2, maxK = 8): KEstimate[] => {
+  const upper = Math.min(maxK, points.length - 1);
+  const estimates: KEstimate[] = [];
+
+  for (let k = minK; k <= upper; k++) {
+    const result = kMeans(points, k);
+    estimates.push({ k, inertia: result.inertia, silhouette: silhouetteScore(points, result.labels) });
+  }
+
+  return estimates;
+};
+
+/**
+ * Median distance to the minPoints-th neighbour, a reasonable starting eps for DBSCAN.
+ * Each query grows a square around the point until it holds that many neighbours
+ * within its half-width, so only nearby points are measured and sorted.
+ */
+export const suggestEps = (points: number[][], minPoints: number): number => {
+  if (points.length <= minPoints) return 0.5;
+
+  // Sample the query points; the exact median hardly moves past a few hundred
+  const random = createRandom(11);
+  const sample = points.length > 500 ? points.filter(() => random() < 500 / points.length) : points;
+
+  const { index } = indexPoints(points);
+  const { minX, maxX, minY, maxY } = index.bounds;
+  // Radius that holds about minPoints neighbours if the points were spread evenly
+  const initialRadius = Math.sqrt(((maxX - minX) * (maxY - minY) * (minPoints + 1)) / points.length);
+
+  const kDistances = sample.map(point => {
+    const [x = 0, y = 0] = point;
+    for (let radius = initialRadius; ; radius *= 2) {
+      const distances = index.queryRect(x - radius, y - radius, x + radius, y + radius)
+        .map(j => squaredDistance(point, points[j]))
+        .filter(distance => distance <= radius * radius);
+      // The point itself is at index 0, so more than minPoints entries settle the answer
+      if (distances.length > minPoints) {
+        return Math.sqrt(distances.sort((a, b) => a - b)[minPoints]);
+      }
+    }
+  }).sort((a, b) => a - b);
+
+  return kDistances[Math.floor(kDistances.length / 2)];
+};
@@ -0,0 +1,43 @@
+// SketchToCad-Frontend/src/utils/color.utils.ts
+
+// Converts an [r, g, b] triple (0-255, possibly fractional) to a #rrggbb string
+export const rgbToHex = (color: number[]): string =>
+  `#${color.slice(0, 3).map(channel =>
+    Math.max(0, Math.min(255, Math.round(channel || 0))).toString(16).padStart(2, '0')
+  ).join('')}`;
+
+// Parses #rgb or #rrggbb into an [r, g, b] triple; null for anything else
+export const hexToRgb = (hex: string): [number, number, number] | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+
+  const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+  return [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16)) as [number, number, number];
+};
+
+// Converts an sRGB [r, g, b] triple (0-255) to CIE L*a*b* under a D65 white point
+export const rgbToLab = (color: number[]): [number, number, number] => {
+  const [r, g, b] = color.slice(0, 3).map(channel => {
+    const c = Math.max(0, Math.min(255, channel || 0)) / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+
+  const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+  const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+  const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+// Converts hue (degrees), saturation and lightness (0-1) to a #rrggbb string
+export const hslToHex = (hue: number, saturation: number, lightness: number): string => {
+  const amplitude = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return (lightness - amplitude * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return rgbToHex([channel(0), channel(8), channel(4)]);
+};
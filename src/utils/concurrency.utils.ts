@@ -0,0 +1,23 @@
+// SketchToCad-Frontend/src/utils/concurrency.utils.ts
+
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight, in
+ * input order. Stops picking up new items once the signal is aborted.
+ */
+export const forEachWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+
+  const runLane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runLane));
+};
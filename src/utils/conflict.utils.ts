@@ -0,0 +1,51 @@
+// SketchToCad-Frontend/src/utils/conflict.utils.ts
+//
+// Beds claimed by more than one cluster, and how to settle them before the
+// clusters are submitted for DXF export.
+
+export type ConflictPolicy = 'first-drawn' | 'smallest-polygon' | 'nearest-centroid' | 'manual';
+
+// Bed index -> every cluster id that currently claims it
+export const findConflicts = (clusters: Record<string, number[]>): Record<number, number[]> => {
+  const claims: Record<number, number[]> = {};
+  Object.entries(clusters).forEach(([clusterId, bedIndices]) => {
+    bedIndices.forEach(bedIndex => {
+      claims[bedIndex] = [...(claims[bedIndex] || []), Number(clusterId)];
+    });
+  });
+
+  return Object.fromEntries(Object.entries(claims).filter(([, clusterIds]) => clusterIds.length > 1));
+};
+
+/**
+ * Keeps each conflicting bed only in the cluster with the lowest rank. Ties go to
+ * the lower cluster id so the result does not depend on object key order.
+ */
+export const resolveConflicts = (
+  clusters: Record<string, number[]>,
+  conflicts: Record<number, number[]>,
+  rank: (bedIndex: number, clusterId: number) => number
+): Record<string, number[]> => {
+  const winners: Record<number, number> = {};
+  Object.entries(conflicts).forEach(([bedIndex, clusterIds]) => {
+    const ranked = clusterIds
+      .map(clusterId => ({ clusterId, score: rank(Number(bedIndex), clusterId) }))
+      .sort((a, b) => a.score - b.score || a.clusterId - b.clusterId);
+    winners[Number(bedIndex)] = ranked[0].clusterId;
+  });
+
+  return Object.fromEntries(Object.entries(clusters).map(([clusterId, bedIndices]) => [
+    clusterId,
+    bedIndices.filter(bedIndex => winners[bedIndex] === undefined || winners[bedIndex] === Number(clusterId))
+  ]));
+};
+
+// Mean of the given rows; used as a cluster centre in colour space
+export const centroidOf = (points: number[][], indices: number[]): number[] | null => {
+  if (indices.length === 0) return null;
+
+  const dims = points[indices[0]]?.length || 0;
+  const sum = new Array(dims).fill(0);
+  indices.forEach(i => points[i]?.forEach((value, d) => { sum[d] += value; }));
+  return sum.map(value => value / indices.length);
+};
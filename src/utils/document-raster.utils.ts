@@ -0,0 +1,97 @@
+// SketchToCad-Frontend/src/utils/document-raster.utils.ts
+//
+// Page sizes and resolutions for turning PDF and TIFF pages into images.
+import { DocumentPageInfo } from '../app/types/image/DocumentPage';
+import { ImageDimensions } from '../app/types/image/ImagePreflight';
+
+export type DocumentType = 'pdf' | 'tiff';
+
+export const POINTS_PER_INCH = 72;
+export const MM_PER_INCH = 25.4;
+
+export const sniffDocumentType = (header: Uint8Array): DocumentType | null => {
+  const matches = (bytes: number[]) => bytes.every((byte, i) => header[i] === byte);
+
+  if (matches([0x25, 0x50, 0x44, 0x46])) return 'pdf'; // "%PDF"
+  if (matches([0x49, 0x49, 0x2a, 0x00]) || matches([0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+  return null;
+};
+
+// TIFF tags as decoded by UTIF: "t<tag number>" -> array of values
+type TiffTags = Record<string, unknown>;
+
+const tagNumber = (ifd: TiffTags, tag: number): number | null => {
+  const value = ifd[`t${tag}`];
+  const first = Array.isArray(value) || ArrayBuffer.isView(value) ? (value as ArrayLike<number>)[0] : value;
+  return typeof first === 'number' && Number.isFinite(first) && first > 0 ? first : null;
+};
+
+// XResolution (282) in ResolutionUnit (296): 2 = inch (the default), 3 = centimetre, 1 = none
+export const tiffResolutionDpi = (ifd: TiffTags): number | null => {
+  const resolution = tagNumber(ifd, 282);
+  const unit = tagNumber(ifd, 296) ?? 2;
+  if (!resolution || unit === 1) return null;
+  return unit === 3 ? resolution * 2.54 : resolution;
+};
+
+// NewSubfileType (254) bit 0 marks reduced-resolution copies such as embedded thumbnails
+export const isTiffPage = (ifd: TiffTags): boolean => ((tagNumber(ifd, 254) ?? 0) & 1) === 0
+  && tagNumber(ifd, 256) !== null
+  && tagNumber(ifd, 257) !== null;
+
+export const tiffPageInfo = (ifd: TiffTags, index: number): DocumentPageInfo => {
+  const pixelWidth = tagNumber(ifd, 256)!;
+  const pixelHeight = tagNumber(ifd, 257)!;
+  const nativeDpi = tiffResolutionDpi(ifd);
+  return {
+    index,
+    widthInches: nativeDpi ? pixelWidth / nativeDpi : null,
+    heightInches: nativeDpi ? pixelHeight / nativeDpi : null,
+    pixelWidth,
+    pixelHeight,
+    nativeDpi
+  };
+};
+
+/**
+ * The resolution a page is actually rendered at: the requested DPI, never
+ * above a scan's own resolution, and lowered so the image stays within
+ * maxMegapixels. Null when the page has no physical size.
+ */
+export const effectiveDpi = (page: DocumentPageInfo, requestedDpi: number, maxMegapixels: number): number | null => {
+  if (!page.widthInches || !page.heightInches) return null;
+
+  const fitting = Math.sqrt((maxMegapixels * 1_000_000) / (page.widthInches * page.heightInches));
+  return Math.max(1, Math.floor(Math.min(requestedDpi, page.nativeDpi ?? Infinity, fitting)));
+};
+
+export const rasterSize = (page: DocumentPageInfo, dpi: number | null, maxMegapixels: number): ImageDimensions => {
+  if (dpi && page.widthInches && page.heightInches) {
+    return { width: Math.round(page.widthInches * dpi), height: Math.round(page.heightInches * dpi) };
+  }
+
+  // No physical size: keep the stored pixels, shrunk only to fit the megapixel limit
+  const width = page.pixelWidth || 1;
+  const height = page.pixelHeight || 1;
+  const scale = Math.min(1, Math.sqrt((maxMegapixels * 1_000_000) / (width * height)));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// ISO A name when the page is within 2% of one, for the page picker
+export const paperName = (page: DocumentPageInfo): string | null => {
+  if (!page.widthInches || !page.heightInches) return null;
+
+  const short = Math.min(page.widthInches, page.heightInches) * MM_PER_INCH;
+  const long = Math.max(page.widthInches, page.heightInches) * MM_PER_INCH;
+  const formats: [string, number, number][] = [
+    ['A0', 841, 1189], ['A1', 594, 841], ['A2', 420, 594], ['A3', 297, 420], ['A4', 210, 297],
+    ['Letter', 215.9, 279.4], ['Tabloid', 279.4, 431.8]
+  ];
+  const match = formats.find(([, w, h]) => Math.abs(short - w) / w < 0.02 && Math.abs(long - h) / h < 0.02);
+  return match?.[0] ?? null;
+};
+
+export const pageFileName = (fileName: string, pageNumber: number, pageCount: number, extension: string) => {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return pageCount > 1 ? `${baseName}-p${pageNumber}.${extension}` : `${baseName}.${extension}`;
+};
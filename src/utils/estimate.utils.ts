@@ -0,0 +1,154 @@
+// SketchToCad-Frontend/src/utils/estimate.utils.ts
+//
+// Bill of quantities: plants to order per cluster from its area, density and price.
+import { ClusterStats } from '../app/types/clustering/ClusterStats';
+import { EstimateRow, QuantityEstimate } from '../app/types/estimate/QuantityEstimate';
+import { AreaUnit, ScaleCalibration } from '../app/types/measurement/ScaleCalibration';
+import { PlantSpecies } from '../app/types/plants/PlantSpecies';
+import { AREA_UNIT_LABELS, convertArea, pixelAreaIn } from './measurement.utils';
+import { escapeCsv } from './plant-library.utils';
+
+export interface EstimateInput {
+  planting_density: number | null;
+  unit_price: number | null;
+}
+
+export const formatPrice = (value: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+
+// The library entry a cluster was filled from, or one whose name matches its species
+export const findClusterPlant = (cluster: ClusterStats, plants: PlantSpecies[]): PlantSpecies | null => {
+  const byId = cluster.plant_id ? plants.find(plant => plant.id === cluster.plant_id) : undefined;
+  if (byId) return byId;
+
+  const species = cluster.species?.trim().toLowerCase();
+  if (!species) return null;
+  return plants.find(plant => [plant.name, plant.latin_name].some(name => name.trim().toLowerCase() === species)) ?? null;
+};
+
+/**
+ * Rounds plant counts up per cluster, since part of a plant cannot be ordered.
+ * Clusters without a density or price show what is known and stay out of the totals.
+ */
+export const buildEstimate = (
+  clusters: ClusterStats[],
+  calibration: ScaleCalibration,
+  inputs: Record<number, EstimateInput>
+): QuantityEstimate => {
+  const rows: EstimateRow[] = clusters.map(cluster => {
+    const { planting_density = null, unit_price = null } = inputs[cluster.cluster_id] || {};
+    const area = pixelAreaIn(cluster.total_area, calibration, 'm2');
+    const plantCount = planting_density !== null && planting_density > 0
+      ? Math.ceil(area * planting_density - 1e-9)
+      : null;
+
+    return {
+      cluster_id: cluster.cluster_id,
+      cluster_name: cluster.cluster_name || `Cluster ${cluster.cluster_id + 1}`,
+      species: cluster.species || '',
+      area_m2: area,
+      planting_density,
+      plant_count: plantCount,
+      unit_price,
+      subtotal: plantCount !== null && unit_price !== null ? plantCount * unit_price : null
+    };
+  });
+
+  return {
+    rows,
+    total_plants: rows.reduce((sum, row) => sum + (row.plant_count ?? 0), 0),
+    total_cost: rows.reduce((sum, row) => sum + (row.subtotal ?? 0), 0),
+    incomplete_rows: rows.filter(row => row.subtotal === null).length
+  };
+};
+
+const fixed = (value: number | null, digits: number) => (value === null ? '' : value.toFixed(digits));
+
+export const estimateToCsv = (estimate: QuantityEstimate, areaUnit: AreaUnit, currency: string): string => {
+  const header = [
+    'cluster', 'species', `area_${areaUnit}`, 'density_per_m2', 'plants', `unit_price_${currency}`, `subtotal_${currency}`
+  ];
+  const rows = estimate.rows.map(row => [
+    row.cluster_name,
+    row.species,
+    fixed(convertArea(row.area_m2, areaUnit), 2),
+    row.planting_density ?? '',
+    row.plant_count ?? '',
+    fixed(row.unit_price, 2),
+    fixed(row.subtotal, 2)
+  ]);
+  const total = ['Total', '', '', '', estimate.total_plants, '', estimate.total_cost.toFixed(2)];
+
+  return [header, ...rows, total].map(row => row.map(escapeCsv).join(',')).join('\n');
+};
+
+const escapeHtml = (value: string | number) =>
+  String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// A standalone page for the browser's print dialog
+export const estimateToHtml = (
+  estimate: QuantityEstimate,
+  areaUnit: AreaUnit,
+  currency: string,
+  title: string
+): string => {
+  const price = (value: number | null) => (value === null ? '–' : escapeHtml(formatPrice(value, currency)));
+  const number = (value: number | null, digits = 0) =>
+    value === null ? '–' : escapeHtml(value.toLocaleString(undefined, { maximumFractionDigits: digits }));
+
+  const body = estimate.rows.map(row => `
+      <tr>
+        <td>${escapeHtml(row.cluster_name)}</td>
+        <td><i>${escapeHtml(row.species)}</i></td>
+        <td class="n">${number(convertArea(row.area_m2, areaUnit), 2)}</td>
+        <td class="n">${number(row.planting_density, 2)}</td>
+        <td class="n">${number(row.plant_count)}</td>
+        <td class="n">${price(row.unit_price)}</td>
+        <td class="n">${price(row.subtotal)}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; font-size: 12px; margin: 24px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+    th { border-bottom: 2px solid #333; }
+    .n { text-align: right; }
+    tfoot td { border-top: 2px solid #333; border-bottom: none; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <table>
+    <thead>
+      <tr>
+        <th>Cluster</th>
+        <th>Species</th>
+        <th class="n">Area (${AREA_UNIT_LABELS[areaUnit]})</th>
+        <th class="n">Plants/m²</th>
+        <th class="n">Plants</th>
+        <th class="n">Unit price</th>
+        <th class="n">Subtotal</th>
+      </tr>
+    </thead>
+    <tbody>${body}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td colspan="4">Total</td>
+        <td class="n">${number(estimate.total_plants)}</td>
+        <td></td>
+        <td class="n">${price(estimate.total_cost)}</td>
+      </tr>
+    </tfoot>
+  </table>
+  ${estimate.incomplete_rows > 0
+    ? `<p>${estimate.incomplete_rows} cluster(s) without a density or price are not included in the total cost.</p>`
+    : ''}
+</body>
+</html>`;
+};
@@ -0,0 +1,55 @@
+// SketchToCad-Frontend/src/utils/geometry.utils.ts
+import { Point } from '../app/types/geometry/Point';
+
+// Ray-casting point in polygon test
+export const pointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  const x = point.x;
+  const y = point.y;
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i].x;
+    const yi = polygon[i].y;
+    const xj = polygon[j].x;
+    const yj = polygon[j].y;
+
+    if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+// Area-weighted centroid, falling back to the vertex mean for degenerate rings
+export const polygonCentroid = (polygon: Point[]): Point => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const cross = polygon[j].x * polygon[i].y - polygon[i].x * polygon[j].y;
+    area += cross;
+    cx += (polygon[j].x + polygon[i].x) * cross;
+    cy += (polygon[j].y + polygon[i].y) * cross;
+  }
+
+  if (Math.abs(area) < 1e-9) {
+    const count = polygon.length || 1;
+    return {
+      x: polygon.reduce((sum, p) => sum + p.x, 0) / count,
+      y: polygon.reduce((sum, p) => sum + p.y, 0) / count
+    };
+  }
+
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+};
+
+// Absolute shoelace area
+export const polygonArea = (polygon: Point[]): number => {
+  let area = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    area += polygon[j].x * polygon[i].y - polygon[i].x * polygon[j].y;
+  }
+  return Math.abs(area) / 2;
+};
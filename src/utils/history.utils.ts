@@ -0,0 +1,76 @@
+// SketchToCad-Frontend/src/utils/history.utils.ts
+//
+// Command-based undo/redo. Each command knows how to apply and revert itself
+// against the document, so the history stores intent rather than snapshots.
+
+export interface Command<T> {
+  label: string;
+  apply: (document: T) => T;
+  revert: (document: T) => T;
+}
+
+export interface HistoryState<T> {
+  present: T;
+  past: Command<T>[];
+  future: Command<T>[];
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(present: T): HistoryState<T> => ({ present, past: [], future: [] });
+
+export const executeCommand = <T>(
+  history: HistoryState<T>,
+  command: Command<T>,
+  limit = DEFAULT_HISTORY_LIMIT
+): HistoryState<T> => ({
+  present: command.apply(history.present),
+  past: [...history.past, command].slice(-limit),
+  future: []
+});
+
+// Records a command whose effect is already in `present`, e.g. after a live drag
+export const recordCommand = <T>(
+  history: HistoryState<T>,
+  command: Command<T>,
+  limit = DEFAULT_HISTORY_LIMIT
+): HistoryState<T> => ({
+  present: history.present,
+  past: [...history.past, command].slice(-limit),
+  future: []
+});
+
+// Transient change that is not recorded, used while a gesture is still in progress
+export const replacePresent = <T>(history: HistoryState<T>, present: T): HistoryState<T> => ({
+  ...history,
+  present
+});
+
+export const undo = <T>(history: HistoryState<T>): HistoryState<T> => {
+  const command = history.past[history.past.length - 1];
+  if (!command) return history;
+
+  return {
+    present: command.revert(history.present),
+    past: history.past.slice(0, -1),
+    future: [command, ...history.future]
+  };
+};
+
+export const redo = <T>(history: HistoryState<T>): HistoryState<T> => {
+  const [command, ...future] = history.future;
+  if (!command) return history;
+
+  return {
+    present: command.apply(history.present),
+    past: [...history.past, command],
+    future
+  };
+};
+
+// Several commands undone and redone as one step; reverted in reverse order
+export const composeCommands = <T>(label: string, commands: Command<T>[]): Command<T> => ({
+  label,
+  apply: document => commands.reduce((doc, command) => command.apply(doc), document),
+  revert: document => commands.reduceRight((doc, command) => command.revert(doc), document)
+});
@@ -0,0 +1,173 @@
+// SketchToCad-Frontend/src/utils/homography.utils.test.ts
+import { describe, expect, it } from 'vitest';
+import { Point } from '../app/types/geometry/Point';
+import { Quad } from '../app/types/geometry/Quad';
+import {
+  applyHomography,
+  computeHomography,
+  estimateAspectRatio,
+  isConvexQuad,
+  PixelBuffer,
+  rectangleQuad,
+  rectifiedSize,
+  solveLinearSystem,
+  warpPerspective
+} from './homography.utils';
+
+const PHOTO = { width: 4000, height: 3000 };
+
+// An A4 sheet (210 × 297 mm) tilted away from a pinhole camera, projected onto the photo
+const projectA4 = (tiltX: number, tiltY: number, focal: number, distance: number): Quad => {
+  const corners: [number, number][] = [[-105, -148.5], [105, -148.5], [105, 148.5], [-105, 148.5]];
+  return corners.map(([x, y]) => {
+    // Rotate about the vertical axis, then the horizontal one, and push the sheet in front of the camera
+    const x1 = x * Math.cos(tiltY);
+    const z1 = -x * Math.sin(tiltY);
+    const y2 = y * Math.cos(tiltX) - z1 * Math.sin(tiltX);
+    const z2 = y * Math.sin(tiltX) + z1 * Math.cos(tiltX) + distance;
+    return { x: PHOTO.width / 2 + (focal * x1) / z2, y: PHOTO.height / 2 + (focal * y2) / z2 };
+  }) as Quad;
+};
+
+const createBuffer = (width: number, height: number): PixelBuffer =>
+  ({ data: new Uint8ClampedArray(width * height * 4), width, height });
+
+// Red and green grow linearly with x and y, so a bilinear sample reads back where it was taken
+const createGradient = (width: number, height: number): PixelBuffer => {
+  const buffer = createBuffer(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      buffer.data.set([x * 4, y * 4, 0, 255], (y * width + x) * 4);
+    }
+  }
+  return buffer;
+};
+
+const pixelAt = (buffer: PixelBuffer, x: number, y: number) =>
+  Array.from(buffer.data.subarray((y * buffer.width + x) * 4, (y * buffer.width + x) * 4 + 4));
+
+const expectPoint = (actual: Point, expected: Point) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+};
+
+describe('solveLinearSystem', () => {
+  it('solves a regular system', () => {
+    const solution = solveLinearSystem([[2, 1], [1, 3]], [3, 5]);
+    expect(solution).not.toBeNull();
+    expect(solution![0]).toBeCloseTo(0.8, 10);
+    expect(solution![1]).toBeCloseTo(1.4, 10);
+  });
+
+  it('returns null for a singular matrix', () => {
+    expect(solveLinearSystem([[1, 2], [2, 4]], [3, 6])).toBeNull();
+  });
+});
+
+describe('computeHomography', () => {
+  const from: Quad = [{ x: 120, y: 80 }, { x: 900, y: 140 }, { x: 860, y: 700 }, { x: 90, y: 620 }];
+  const to = rectangleQuad({ width: 800, height: 600 });
+
+  it('maps each corner exactly onto its target', () => {
+    const h = computeHomography(from, to);
+    expect(h).not.toBeNull();
+    from.forEach((corner, i) => expectPoint(applyHomography(h!, corner), to[i]));
+  });
+
+  it('returns null when three corners are collinear', () => {
+    const collinear: Quad = [{ x: 0, y: 0 }, { x: 50, y: 50 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    expect(computeHomography(collinear, to)).toBeNull();
+  });
+});
+
+describe('applyHomography', () => {
+  it('leaves points unchanged under the identity', () => {
+    expectPoint(applyHomography([1, 0, 0, 0, 1, 0, 0, 0, 1], { x: 12.5, y: -3 }), { x: 12.5, y: -3 });
+  });
+
+  it('divides by the projective term', () => {
+    // x' = (2x + 1) / (0.5x + 1), y' = 3y / (0.5x + 1)
+    expectPoint(applyHomography([2, 0, 1, 0, 3, 0, 0.5, 0, 1], { x: 2, y: 4 }), { x: 2.5, y: 6 });
+  });
+
+  it('maps the inside of the quad into the target rectangle', () => {
+    const h = computeHomography(rectangleQuad({ width: 100, height: 100 }), rectangleQuad({ width: 200, height: 50 }));
+    expectPoint(applyHomography(h!, { x: 50, y: 50 }), { x: 100, y: 25 });
+  });
+});
+
+describe('isConvexQuad', () => {
+  it('accepts a convex quad in either winding', () => {
+    const quad: Quad = [{ x: 0, y: 0 }, { x: 100, y: 10 }, { x: 90, y: 80 }, { x: 5, y: 100 }];
+    expect(isConvexQuad(quad)).toBe(true);
+    expect(isConvexQuad([...quad].reverse() as Quad)).toBe(true);
+  });
+
+  it('rejects a concave quad', () => {
+    expect(isConvexQuad([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 30, y: 30 }, { x: 0, y: 100 }])).toBe(false);
+  });
+
+  it('rejects a self-intersecting quad', () => {
+    expect(isConvexQuad([{ x: 0, y: 0 }, { x: 100, y: 100 }, { x: 100, y: 0 }, { x: 0, y: 100 }])).toBe(false);
+  });
+});
+
+describe('estimateAspectRatio', () => {
+  it('recovers the A4 ratio from a photo taken at an angle', () => {
+    // A long focal length, far from the assumed phone lens, so the ratio has to come from the perspective
+    const quad = projectA4(0.5, 0.35, 6000, 1000);
+    expect(isConvexQuad(quad)).toBe(true);
+    expect(estimateAspectRatio(quad, PHOTO)).toBeCloseTo(210 / 297, 2);
+  });
+
+  it('falls back to a typical lens when the sheet is photographed head-on', () => {
+    expect(estimateAspectRatio(projectA4(0, 0, 3200, 600), PHOTO)).toBeCloseTo(210 / 297, 3);
+  });
+});
+
+describe('rectifiedSize', () => {
+  const quad: Quad = [{ x: 10, y: 20 }, { x: 310, y: 20 }, { x: 290, y: 120 }, { x: 30, y: 120 }];
+
+  it('keeps the longest edge and derives the other side from the aspect ratio', () => {
+    expect(rectifiedSize(quad, 2)).toEqual({ width: 300, height: 150 });
+  });
+
+  it('puts the longest edge on the height for portrait sheets', () => {
+    expect(rectifiedSize(quad, 0.5)).toEqual({ width: 150, height: 300 });
+  });
+});
+
+describe('warpPerspective', () => {
+  const source = createGradient(64, 64);
+
+  it('copies the source unchanged under the identity', () => {
+    const target = createBuffer(64, 64);
+    warpPerspective(source, target, [1, 0, 0, 0, 1, 0, 0, 0, 1]);
+    expect(Array.from(target.data)).toEqual(Array.from(source.data));
+  });
+
+  it('samples the quad corners into the corners of the output', () => {
+    const quad: Quad = [{ x: 8, y: 6 }, { x: 56, y: 12 }, { x: 50, y: 58 }, { x: 4, y: 52 }];
+    const size = { width: 40, height: 30 };
+    const h = computeHomography(rectangleQuad(size), quad)!;
+    const target = createBuffer(size.width, size.height);
+    warpPerspective(source, target, h);
+
+    [[0, 0], [size.width - 1, 0], [size.width - 1, size.height - 1], [0, size.height - 1]].forEach(([x, y]) => {
+      // Output pixel centres map to source positions measured from pixel centres
+      const at = applyHomography(h, { x: x + 0.5, y: y + 0.5 });
+      const [red, green, , alpha] = pixelAt(target, x, y);
+      expect(Math.abs(red - (at.x - 0.5) * 4)).toBeLessThanOrEqual(1);
+      expect(Math.abs(green - (at.y - 0.5) * 4)).toBeLessThanOrEqual(1);
+      expect(alpha).toBe(255);
+    });
+  });
+
+  it('fills pixels that land outside the source with white', () => {
+    const target = createBuffer(4, 4);
+    // Shifts every sample 100 px to the right of the 64 px wide source
+    warpPerspective(source, target, [1, 0, 100, 0, 1, 0, 0, 0, 1]);
+    expect(pixelAt(target, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(target, 3, 3)).toEqual([255, 255, 255, 255]);
+  });
+});
@@ -0,0 +1,213 @@
+// SketchToCad-Frontend/src/utils/homography.utils.ts
+//
+// Perspective correction for photographed sketches: the homography between
+// the four paper corners and a rectangle, the paper's aspect ratio, and an
+// inverse-mapped bilinear warp. Pure functions on plain arrays so they run in
+// the preflight worker and on the main thread alike.
+import { Point } from '../app/types/geometry/Point';
+import { Quad } from '../app/types/geometry/Quad';
+import { ImageDimensions } from '../app/types/image/ImagePreflight';
+
+// Row-major 3×3 matrix with h[8] normalised to 1
+export type Homography = number[];
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const EPSILON = 1e-10;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Gaussian elimination with partial pivoting; null when the system is singular
+export const solveLinearSystem = (matrix: number[][], vector: number[]): number[] | null => {
+  const n = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < EPSILON) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * solution[k];
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+};
+
+/**
+ * The homography mapping each `from` corner onto the matching `to` corner,
+ * from the standard 8×8 direct linear system. Null when three corners are
+ * collinear.
+ */
+export const computeHomography = (from: Quad, to: Quad): Homography | null => {
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    vector.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    vector.push(v);
+  });
+
+  const solution = solveLinearSystem(matrix, vector);
+  return solution ? [...solution, 1] : null;
+};
+
+export const applyHomography = (h: Homography, { x, y }: Point): Point => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w
+  };
+};
+
+// Corners in order around a convex shape; anything else folds the image over itself
+export const isConvexQuad = (quad: Quad): boolean => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < EPSILON) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+};
+
+export const rectangleQuad = ({ width, height }: ImageDimensions): Quad => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height }
+];
+
+// Width over height measured along the quad's edges, ignoring foreshortening
+export const edgeAspectRatio = ([tl, tr, br, bl]: Quad): number =>
+  Math.max(distance(tl, tr), distance(bl, br)) / Math.max(distance(tl, bl), distance(tr, br));
+
+// Focal length over the photo's longest side for a typical phone main camera (about 28 mm equivalent)
+const DEFAULT_FOCAL_RATIO = 0.78;
+
+/**
+ * Width over height of the photographed rectangle, recovered from the
+ * perspective itself (Zhang & He, "Whiteboard scanning and image
+ * enhancement", 2007) assuming square pixels and the principal point at the
+ * photo centre. When a pair of edges is (nearly) parallel in the photo the
+ * focal length cannot be recovered, and a typical phone lens is assumed.
+ */
+export const estimateAspectRatio = (quad: Quad, photo: ImageDimensions): number => {
+  const [tl, tr, br, bl] = quad;
+  const cx = photo.width / 2;
+  const cy = photo.height / 2;
+  const homogeneous = (p: Point): number[] => [p.x - cx, p.y - cy, 1];
+  const cross = (a: number[], b: number[]) => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0]
+  ];
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+  const m1 = homogeneous(tl);
+  const m2 = homogeneous(tr);
+  const m3 = homogeneous(bl);
+  const m4 = homogeneous(br);
+
+  const m1xm4 = cross(m1, m4);
+  const k2 = dot(m1xm4, m3) / dot(cross(m2, m4), m3);
+  const k3 = dot(m1xm4, m2) / dot(cross(m3, m4), m2);
+  if (!Number.isFinite(k2) || !Number.isFinite(k3)) return edgeAspectRatio(quad);
+
+  const n2 = m2.map((value, i) => k2 * value - m1[i]);
+  const n3 = m3.map((value, i) => k3 * value - m1[i]);
+
+  // How far each edge direction is from parallel to the image plane; near 0 the focal estimate is noise
+  const scale = Math.max(photo.width, photo.height);
+  const tilt = (n: number[]) => (Math.abs(n[2]) * scale) / Math.hypot(n[0], n[1]);
+  const recovered = -(n2[0] * n3[0] + n2[1] * n3[1]) / (n2[2] * n3[2]);
+  const focalSquared = Math.min(tilt(n2), tilt(n3)) > 0.02
+    && recovered > (0.2 * scale) ** 2
+    && recovered < (10 * scale) ** 2
+    ? recovered
+    : (DEFAULT_FOCAL_RATIO * scale) ** 2;
+
+  const ratio = Math.sqrt(
+    (n2[0] ** 2 + n2[1] ** 2 + focalSquared * n2[2] ** 2) /
+    (n3[0] ** 2 + n3[1] ** 2 + focalSquared * n3[2] ** 2)
+  );
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : edgeAspectRatio(quad);
+};
+
+// Output size for a rectified quad: the longest edge keeps its resolution, the other follows the aspect ratio
+export const rectifiedSize = (quad: Quad, aspectRatio: number): ImageDimensions => {
+  const [tl, tr, br, bl] = quad;
+  const longest = Math.max(distance(tl, tr), distance(bl, br), distance(tl, bl), distance(tr, br));
+  return aspectRatio >= 1
+    ? { width: longest, height: longest / aspectRatio }
+    : { width: longest * aspectRatio, height: longest };
+};
+
+/**
+ * Fills `target` by mapping each of its pixels through `targetToSource` and
+ * sampling `source` bilinearly. Pixels that land outside the source are white.
+ */
+export const warpPerspective = (source: PixelBuffer, target: PixelBuffer, targetToSource: Homography) => {
+  const { data: src, width: sw, height: sh } = source;
+  const { data: dst, width: tw, height: th } = target;
+  const h = targetToSource;
+
+  for (let y = 0; y < th; y++) {
+    for (let x = 0; x < tw; x++) {
+      // Sample at pixel centres
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const w = h[6] * px + h[7] * py + h[8];
+      const sx = (h[0] * px + h[1] * py + h[2]) / w - 0.5;
+      const sy = (h[3] * px + h[4] * py + h[5]) / w - 0.5;
+      const out = (y * tw + x) * 4;
+
+      if (!(sx > -1 && sy > -1 && sx < sw && sy < sh)) {
+        dst[out] = dst[out + 1] = dst[out + 2] = dst[out + 3] = 255;
+        continue;
+      }
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      // Clamp at the border so edge pixels are not blended with white
+      const xa = Math.max(0, x0);
+      const xb = Math.min(sw - 1, x0 + 1);
+      const ya = Math.max(0, y0);
+      const yb = Math.min(sh - 1, y0 + 1);
+      const i00 = (ya * sw + xa) * 4;
+      const i10 = (ya * sw + xb) * 4;
+      const i01 = (yb * sw + xa) * 4;
+      const i11 = (yb * sw + xb) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        dst[out + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+};
@@ -0,0 +1,332 @@
+// SketchToCad-Frontend/src/utils/image-preflight.utils.ts
+//
+// Checking and preparing a sketch before upload. Everything here runs both in
+// the preflight worker and, where workers lack OffscreenCanvas, on the main thread.
+import { Quad } from '../app/types/geometry/Quad';
+import { CropRect, ImageDimensions, PreflightResult, PreflightTransform } from '../app/types/image/ImagePreflight';
+import { computeHomography, rectangleQuad, rectifiedSize, warpPerspective } from './homography.utils';
+
+export interface PreflightLimits {
+  maxInputBytes: number;
+  maxMegapixels: number;
+  minDimension: number;
+}
+
+export interface RenderOptions {
+  maxDimension: number;
+  outputType: string;
+  outputQuality: number;
+}
+
+// Messages exchanged with the preflight worker; `key` identifies the source file
+export type PreflightRequest =
+  | { id: number; type: 'inspect'; key: string; file: Blob }
+  | { id: number; type: 'render'; key: string; file: Blob; transform: PreflightTransform; options: RenderOptions }
+  | { id: number; type: 'release'; key: string };
+
+export type PreflightResponse =
+  | { id: number; ok: true; dimensions?: ImageDimensions; result?: PreflightResult }
+  | { id: number; ok: false; error: string };
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const formatMegapixels = ({ width, height }: ImageDimensions) =>
+  `${((width * height) / 1_000_000).toFixed(1)} MP`;
+
+// Identifies the format from the file's first bytes; the extension and MIME type are only claims
+export const sniffImageType = (header: Uint8Array): string | null => {
+  const matches = (offset: number, bytes: number[]) => bytes.every((byte, i) => header[offset + i] === byte);
+
+  if (matches(0, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (matches(0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  // "RIFF" .... "WEBP"
+  if (matches(0, [0x52, 0x49, 0x46, 0x46]) && matches(8, [0x57, 0x45, 0x42, 0x50])) return 'image/webp';
+  return null;
+};
+
+// JPEG start-of-frame markers carry the size; C4, C8 and CC share the range but are not frames
+const isJpegFrameMarker = (marker: number) =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+/**
+ * Pixel size as stored in the file header, read without decoding. Null when
+ * the size is not within `bytes`, e.g. a JPEG whose metadata runs past them.
+ * Stored size, before EXIF orientation; a quarter turn swaps the sides.
+ */
+export const readHeaderDimensions = (bytes: Uint8Array, type: string): ImageDimensions | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const has = (offset: number, length: number) => offset + length <= bytes.length;
+
+  if (type === 'image/png') {
+    // The IHDR chunk always comes first
+    return has(16, 8) ? { width: view.getUint32(16), height: view.getUint32(20) } : null;
+  }
+
+  if (type === 'image/webp') {
+    if (!has(12, 18)) return null;
+    const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+    if (chunk === 'VP8 ') {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      const width = bytes[24] | (bytes[25] << 8) | (bytes[26] << 16);
+      const height = bytes[27] | (bytes[28] << 8) | (bytes[29] << 16);
+      return { width: width + 1, height: height + 1 };
+    }
+    return null;
+  }
+
+  if (type === 'image/jpeg') {
+    // Walk the marker segments after SOI until the frame header
+    let offset = 2;
+    while (has(offset, 4)) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+        offset += 2;
+        continue;
+      }
+      if (marker === 0xd9 || marker === 0xda) return null;
+      if (isJpegFrameMarker(marker)) {
+        return has(offset + 5, 4) ? { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) } : null;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return null;
+};
+
+// Checks that need no decoding; returns an error message or null
+export const validateImageFile = (
+  file: { name: string; size: number },
+  detectedType: string | null,
+  acceptedTypes: string[],
+  limits: PreflightLimits
+): string | null => {
+  if (file.size === 0) {
+    return `${file.name} is empty.`;
+  }
+  if (file.size > limits.maxInputBytes) {
+    return `${file.name} is ${formatBytes(file.size)}; files up to ${formatBytes(limits.maxInputBytes)} are accepted.`;
+  }
+  if (!detectedType || !acceptedTypes.includes(detectedType)) {
+    return `${file.name} is not a JPEG, PNG or WebP image.`;
+  }
+  return null;
+};
+
+export const validateDimensions = (
+  name: string,
+  dimensions: ImageDimensions,
+  limits: PreflightLimits
+): string | null => {
+  const megapixels = (dimensions.width * dimensions.height) / 1_000_000;
+  if (megapixels > limits.maxMegapixels) {
+    return `${name} is ${formatMegapixels(dimensions)}; images up to ${limits.maxMegapixels} MP are accepted. ` +
+      'Export it at a lower resolution and try again.';
+  }
+  if (Math.min(dimensions.width, dimensions.height) < limits.minDimension) {
+    return `${name} is only ${dimensions.width}×${dimensions.height} px; ` +
+      `at least ${limits.minDimension} px on each side is needed to find the beds.`;
+  }
+  return null;
+};
+
+// Size of the box holding the image rotated by `degrees`
+export const rotatedBounds = ({ width, height }: ImageDimensions, degrees: number): ImageDimensions => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  // Rounding avoids a 1px sliver from floating-point error at quarter turns
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos)
+  };
+};
+
+// Corners given as fractions of `size`, in pixels
+export const quadToPixels = (quad: Quad, size: ImageDimensions): Quad =>
+  quad.map(({ x, y }) => ({ x: x * size.width, y: y * size.height })) as Quad;
+
+// Size of the selected region before scaling: the crop, or the rectified sheet
+const regionSize = (bounds: ImageDimensions, transform: PreflightTransform): ImageDimensions =>
+  transform.perspective
+    ? rectifiedSize(quadToPixels(transform.perspective.corners, bounds), transform.perspective.aspectRatio)
+    : { width: bounds.width * transform.crop.width, height: bounds.height * transform.crop.height };
+
+// Output size for the selected region with its longest side limited to maxDimension; never upscales
+export const outputDimensions = (
+  source: ImageDimensions,
+  transform: PreflightTransform,
+  maxDimension: number
+): ImageDimensions & { scale: number } => {
+  const region = regionSize(rotatedBounds(source, transform.rotation), transform);
+  const scale = Math.min(1, maxDimension / Math.max(region.width, region.height));
+  return {
+    width: Math.max(1, Math.round(region.width * scale)),
+    height: Math.max(1, Math.round(region.height * scale)),
+    scale
+  };
+};
+
+// Keeps a crop inside the image and at least minSize wide and high
+export const clampCrop = (crop: CropRect, minSize = 0.05): CropRect => {
+  const width = Math.min(1, Math.max(minSize, crop.width));
+  const height = Math.min(1, Math.max(minSize, crop.height));
+  return {
+    x: Math.min(1 - width, Math.max(0, crop.x)),
+    y: Math.min(1 - height, Math.max(0, crop.y)),
+    width,
+    height
+  };
+};
+
+export type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+// Drags a corner (or the whole crop) by dx/dy image fractions, keeping the opposite edges fixed
+export const dragCrop = (crop: CropRect, handle: CropHandle, dx: number, dy: number, minSize = 0.05): CropRect => {
+  if (handle === 'move') {
+    return clampCrop({ ...crop, x: crop.x + dx, y: crop.y + dy }, minSize);
+  }
+
+  let left = crop.x;
+  let top = crop.y;
+  let right = crop.x + crop.width;
+  let bottom = crop.y + crop.height;
+
+  if (handle === 'nw' || handle === 'sw') left = Math.min(right - minSize, Math.max(0, left + dx));
+  if (handle === 'ne' || handle === 'se') right = Math.max(left + minSize, Math.min(1, right + dx));
+  if (handle === 'nw' || handle === 'ne') top = Math.min(bottom - minSize, Math.max(0, top + dy));
+  if (handle === 'sw' || handle === 'se') bottom = Math.max(top + minSize, Math.min(1, bottom + dy));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export type PreflightCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): PreflightCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: PreflightCanvas, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), type, quality);
+  });
+};
+
+// The last decoded source, so preview re-renders while rotating or cropping skip decoding
+let decoded: { key: string; bitmap: ImageBitmap } | null = null;
+
+/**
+ * Decodes an image upright: 'from-image' applies the EXIF orientation, and
+ * since the re-encoded upload carries no EXIF the backend sees the same pixels.
+ */
+export const decodeImage = async (key: string, blob: Blob): Promise<ImageBitmap> => {
+  if (decoded?.key === key) return decoded.bitmap;
+
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  decoded?.bitmap.close();
+  decoded = { key, bitmap };
+  return bitmap;
+};
+
+export const releaseDecodedImage = (key: string) => {
+  if (decoded?.key !== key) return;
+  decoded.bitmap.close();
+  decoded = null;
+};
+
+type PreflightContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const getContext = (canvas: PreflightCanvas): PreflightContext => {
+  const context = canvas.getContext('2d') as PreflightContext | null;
+  if (!context) {
+    throw new Error('Canvas 2D is not available in this browser');
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  return context;
+};
+
+// Draws the bitmap rotated about its centre into a frame of the rotated bounds, scaled by `scale`
+const drawRotated = (context: PreflightContext, bitmap: ImageBitmap, rotation: number, scale: number) => {
+  const bounds = rotatedBounds(bitmap, rotation);
+  context.scale(scale, scale);
+  context.translate(bounds.width / 2, bounds.height / 2);
+  context.rotate((rotation * Math.PI) / 180);
+  context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+};
+
+/**
+ * Rotates, then crops or rectifies, and downscales. Corners uncovered by a
+ * rotation are filled white like paper. A perspective warp samples from the
+ * rotated image already reduced to the output scale, which keeps it cheap and
+ * avoids aliasing when a large photo is shrunk.
+ */
+export const renderImage = async (
+  bitmap: ImageBitmap,
+  transform: PreflightTransform,
+  options: RenderOptions
+): Promise<PreflightResult> => {
+  const source = { width: bitmap.width, height: bitmap.height };
+  const bounds = rotatedBounds(source, transform.rotation);
+  const output = outputDimensions(source, transform, options.maxDimension);
+
+  const canvas = createCanvas(output.width, output.height);
+  const context = getContext(canvas);
+
+  if (transform.perspective) {
+    const frame = createCanvas(
+      Math.max(1, Math.round(bounds.width * output.scale)),
+      Math.max(1, Math.round(bounds.height * output.scale))
+    );
+    const frameContext = getContext(frame);
+    drawRotated(frameContext, bitmap, transform.rotation, output.scale);
+
+    const targetToSource = computeHomography(
+      rectangleQuad(output),
+      quadToPixels(transform.perspective.corners, frame)
+    );
+    if (!targetToSource) {
+      throw new Error('The paper corners do not form a quadrilateral');
+    }
+
+    const pixels = context.createImageData(output.width, output.height);
+    warpPerspective(frameContext.getImageData(0, 0, frame.width, frame.height), pixels, targetToSource);
+    context.putImageData(pixels, 0, 0);
+  } else {
+    context.translate(-transform.crop.x * bounds.width * output.scale, -transform.crop.y * bounds.height * output.scale);
+    drawRotated(context, bitmap, transform.rotation, output.scale);
+  }
+
+  return {
+    blob: await canvasToBlob(canvas, options.outputType, options.outputQuality),
+    width: output.width,
+    height: output.height,
+    sourceWidth: source.width,
+    sourceHeight: source.height
+  };
+};
@@ -0,0 +1,80 @@
+// SketchToCad-Frontend/src/utils/measurement.utils.ts
+//
+// Pixel areas to square metres or feet, from a per-saga scale calibration.
+import { AreaUnit, LengthUnit, ScaleCalibration } from '../app/types/measurement/ScaleCalibration';
+import { MM_PER_INCH } from './document-raster.utils';
+
+export const METRES_PER_UNIT: Record<LengthUnit, number> = {
+  m: 1,
+  cm: 0.01,
+  mm: 0.001,
+  ft: 0.3048,
+  in: 0.0254
+};
+
+export const AREA_UNIT_LABELS: Record<AreaUnit, string> = {
+  m2: 'm²',
+  ft2: 'ft²'
+};
+
+const SQUARE_METRES_PER_UNIT: Record<AreaUnit, number> = {
+  m2: 1,
+  ft2: METRES_PER_UNIT.ft * METRES_PER_UNIT.ft
+};
+
+export const calibrationFromLine = (linePixels: number, length: number, unit: LengthUnit): ScaleCalibration | null => {
+  const metres = length * METRES_PER_UNIT[unit];
+  if (!(linePixels > 0) || !(metres > 0)) return null;
+
+  return {
+    pixels_per_metre: linePixels / metres,
+    method: 'line',
+    line_pixels: linePixels,
+    line_length: length,
+    line_unit: unit
+  };
+};
+
+// At 1:denominator one real metre is 1000/denominator mm on paper
+export const calibrationFromDrawingScale = (denominator: number, dpi: number): ScaleCalibration | null => {
+  if (!(denominator > 0) || !(dpi > 0)) return null;
+
+  return {
+    pixels_per_metre: (1000 / denominator / MM_PER_INCH) * dpi,
+    method: 'drawing_scale',
+    scale_denominator: denominator,
+    dpi
+  };
+};
+
+// Accepts "1:100", "1/100" or just "100"
+export const parseDrawingScale = (value: string): number | null => {
+  const match = value.trim().match(/^(?:1\s*[:/]\s*)?(\d+(?:[.,]\d+)?)$/);
+  if (!match) return null;
+
+  const denominator = Number(match[1].replace(',', '.'));
+  return denominator > 0 ? denominator : null;
+};
+
+export const convertArea = (squareMetres: number, unit: AreaUnit): number =>
+  squareMetres / SQUARE_METRES_PER_UNIT[unit];
+
+export const pixelAreaIn = (pixels: number, calibration: ScaleCalibration, unit: AreaUnit): number =>
+  convertArea(pixels / (calibration.pixels_per_metre * calibration.pixels_per_metre), unit);
+
+// Pixels stay pixels until the saga is calibrated
+export const formatArea = (pixels: number, calibration: ScaleCalibration | null, unit: AreaUnit): string => {
+  if (!calibration) return `${Math.round(pixels).toLocaleString()} px`;
+
+  const area = pixelAreaIn(pixels, calibration, unit);
+  const digits = area >= 100 ? 0 : area >= 10 ? 1 : 2;
+  return `${area.toLocaleString(undefined, { maximumFractionDigits: digits })} ${AREA_UNIT_LABELS[unit]}`;
+};
+
+export const describeCalibration = (calibration: ScaleCalibration): string => {
+  const perMetre = `${calibration.pixels_per_metre.toLocaleString(undefined, { maximumFractionDigits: 1 })} px/m`;
+  if (calibration.method === 'drawing_scale') {
+    return `1:${calibration.scale_denominator} at ${calibration.dpi} DPI (${perMetre})`;
+  }
+  return `${calibration.line_length} ${calibration.line_unit} reference line (${perMetre})`;
+};
@@ -0,0 +1,32 @@
+// SketchToCad-Frontend/src/utils/plant-library.utils.test.ts
+import { describe, expect, it } from 'vitest';
+import { parsePlantsCsv } from './plant-library.utils';
+
+describe('parsePlantsCsv', () => {
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    const { plants, errors } = parsePlantsCsv(
+      'name,latin_name,color,spacing_m\n"Lavender, ""Hidcote""","Lavandula\nangustifolia",#7b68ee,0.4\n'
+    );
+    expect(errors).toEqual([]);
+    expect(plants).toHaveLength(1);
+    expect(plants[0].name).toBe('Lavender, "Hidcote"');
+    expect(plants[0].latin_name).toBe('Lavandula\nangustifolia');
+    expect(plants[0].color).toBe('#7B68EE');
+  });
+
+  it('reports errors at the line each row starts on', () => {
+    const csv = [
+      'name,latin_name,color,spacing_m',
+      'Box,"Buxus',
+      'sempervirens",#228B22,0.3',
+      '',
+      'Fern,,green,0.5',
+      'Yew,Taxus baccata,#1F4D2B,0'
+    ].join('\r\n');
+
+    expect(parsePlantsCsv(csv).errors).toEqual([
+      'Line 5: invalid colour "green"',
+      'Line 6: invalid spacing "0"'
+    ]);
+  });
+});
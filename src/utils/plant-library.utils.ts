@@ -0,0 +1,168 @@
+// SketchToCad-Frontend/src/utils/plant-library.utils.ts
+import { PlantSpecies } from '../app/types/plants/PlantSpecies';
+import { hexToRgb, rgbToHex, rgbToLab } from './color.utils';
+import { toLayerName } from './cluster.utils';
+
+export interface PlantImport {
+  plants: PlantSpecies[];
+  // One message per skipped entry, naming its row or position
+  errors: string[];
+}
+
+export interface PlantMatch {
+  plant: PlantSpecies;
+  // CIE76 colour difference; below ~10 reads as the same colour on a plan
+  distance: number;
+}
+
+export const PLANT_CSV_COLUMNS = ['id', 'name', 'latin_name', 'color', 'spacing_m', 'layer_name', 'unit_price'] as const;
+
+export const createPlantId = () => `plant_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Square-grid planting: one plant per spacing² square metres
+export const densityFromSpacing = (spacing: number): number | null =>
+  spacing > 0 ? Math.round((1 / (spacing * spacing)) * 100) / 100 : null;
+
+// Validates one imported record, filling in what can be derived
+const toPlant = (record: Record<string, unknown>): PlantSpecies | string => {
+  const name = String(record.name ?? '').trim();
+  if (!name) return 'missing name';
+
+  const rgb = hexToRgb(String(record.color ?? ''));
+  if (!rgb) return `invalid colour "${record.color ?? ''}"`;
+
+  const spacing = Number(record.spacing_m);
+  if (!Number.isFinite(spacing) || spacing <= 0) return `invalid spacing "${record.spacing_m ?? ''}"`;
+
+  // Optional: blank means not priced yet
+  const rawPrice = String(record.unit_price ?? '').trim();
+  const price = rawPrice === '' ? null : Number(rawPrice);
+  if (price !== null && (!Number.isFinite(price) || price < 0)) return `invalid unit price "${rawPrice}"`;
+
+  return {
+    id: String(record.id ?? '').trim() || createPlantId(),
+    name,
+    latin_name: String(record.latin_name ?? '').trim(),
+    color: rgbToHex(rgb).toUpperCase(),
+    spacing_m: spacing,
+    layer_name: toLayerName(String(record.layer_name ?? '')) || toLayerName(name),
+    unit_price: price,
+    updated_at: new Date().toISOString()
+  };
+};
+
+const collect = (records: Record<string, unknown>[], describe: (index: number) => string): PlantImport =>
+  records.reduce<PlantImport>((result, record, index) => {
+    const plant = toPlant(record);
+    if (typeof plant === 'string') {
+      result.errors.push(`${describe(index)}: ${plant}`);
+    } else {
+      result.plants.push(plant);
+    }
+    return result;
+  }, { plants: [], errors: [] });
+
+export const plantsToJson = (plants: PlantSpecies[]): string => JSON.stringify({ plants }, null, 2);
+
+// Accepts either an array of entries or the { plants: [...] } shape plantsToJson writes
+export const parsePlantsJson = (text: string): PlantImport => {
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed) ? parsed : parsed?.plants;
+  if (!Array.isArray(records)) {
+    throw new Error('Expected an array of plants or an object with a "plants" array');
+  }
+  return collect(records, index => `Entry ${index + 1}`);
+};
+
+export const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const plantsToCsv = (plants: PlantSpecies[]): string =>
+  [
+    PLANT_CSV_COLUMNS.join(','),
+    ...plants.map(plant => PLANT_CSV_COLUMNS.map(column => escapeCsv(plant[column] ?? '')).join(','))
+  ].join('\n');
+
+interface CsvRow {
+  values: string[];
+  // 1-based line the row starts on; quoted fields may span several lines
+  line: number;
+}
+
+// RFC 4180 rows: quoted fields may contain commas, doubled quotes and line breaks
+const parseCsvRows = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Line being read, and the line the current row started on
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+        // A CRLF inside a field counts once, at its LF
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ values: row, line: rowLine });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ values: row, line: rowLine });
+  }
+  return rows.filter(r => r.values.some(value => value.trim() !== ''));
+};
+
+// Columns are matched by header name, so spreadsheets may reorder or add columns
+export const parsePlantsCsv = (text: string): PlantImport => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return { plants: [], errors: [] };
+
+  const columns = header.values.map(name => name.trim().toLowerCase());
+  if (!columns.includes('name')) {
+    throw new Error('CSV header must include a "name" column');
+  }
+
+  const records = rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row.values[i] ?? ''])));
+  // Blank lines are skipped and quoted fields may hold line breaks, so report where each row starts
+  return collect(records, index => `Line ${rows[index].line}`);
+};
+
+// Library entries ordered by how close their colour is to the given RGB
+export const rankPlantsByColor = (rgb: number[], plants: PlantSpecies[]): PlantMatch[] => {
+  const [l, a, b] = rgbToLab(rgb);
+
+  return plants
+    .flatMap(plant => {
+      const plantRgb = hexToRgb(plant.color);
+      if (!plantRgb) return [];
+      const [pl, pa, pb] = rgbToLab(plantRgb);
+      return [{ plant, distance: Math.sqrt((l - pl) ** 2 + (a - pa) ** 2 + (b - pb) ** 2) }];
+    })
+    .sort((x, y) => x.distance - y.distance);
+};
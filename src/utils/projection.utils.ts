@@ -0,0 +1,153 @@
+// SketchToCad-Frontend/src/utils/projection.utils.ts
+//
+// 2-D views of the multi-channel colour data shown in the clustering scatter.
+// Polygons are drawn in one of these views and keep the id of the view they
+// were drawn in, so membership can be tested in the right space later.
+
+export interface Projection {
+  id: string;
+  label: string;
+  xLabel: string;
+  yLabel: string;
+  x: number[];
+  y: number[];
+}
+
+// Matches the scatter the clustering canvas always drew: second channel across, first channel up
+export const DEFAULT_PROJECTION_ID = 'ch:1:0';
+
+const RGB_LABELS = ['Red', 'Green', 'Blue'];
+
+export const channelLabels = (method: string, dimensions: number): string[] =>
+  Array.from({ length: dimensions }, (_, d) =>
+    method === 'original' && d < RGB_LABELS.length ? RGB_LABELS[d] : `Component ${d + 1}`
+  );
+
+// Jacobi eigenvalue iteration; fine for the handful of dimensions colour data has
+const symmetricEigen = (matrix: number[][]): { values: number[]; vectors: number[][] } => {
+  const n = matrix.length;
+  const a = matrix.map(row => row.slice());
+  const v: number[][] = a.map((_, i) => a.map((__, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-12) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  // Eigenvectors are the columns of v; return them as rows sorted by descending variance
+  const order = a.map((row, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => v.map(row => row[i]))
+  };
+};
+
+// Scores of every point on the principal components of the data
+export const principalComponents = (points: number[][]): { scores: number[][]; explained: number[] } => {
+  if (points.length === 0) return { scores: [], explained: [] };
+
+  const dims = points[0].length;
+  const means = new Array(dims).fill(0);
+  points.forEach(point => point.forEach((value, d) => { means[d] += value / points.length; }));
+
+  const covariance = Array.from({ length: dims }, () => new Array(dims).fill(0));
+  points.forEach(point => {
+    for (let i = 0; i < dims; i++) {
+      for (let j = i; j < dims; j++) {
+        covariance[i][j] += (point[i] - means[i]) * (point[j] - means[j]);
+      }
+    }
+  });
+  for (let i = 0; i < dims; i++) {
+    for (let j = i; j < dims; j++) {
+      covariance[i][j] /= Math.max(1, points.length - 1);
+      covariance[j][i] = covariance[i][j];
+    }
+  }
+
+  const { values, vectors } = symmetricEigen(covariance);
+  const totalVariance = values.reduce((sum, value) => sum + Math.max(0, value), 0) || 1;
+
+  return {
+    scores: points.map(point =>
+      vectors.map(vector => vector.reduce((sum, weight, d) => sum + weight * (point[d] - means[d]), 0))
+    ),
+    explained: values.map(value => Math.max(0, value) / totalVariance)
+  };
+};
+
+// Every channel pair (both orientations collapse to one) plus the leading principal component pairs
+export const buildProjections = (points: number[][], labels: string[]): Projection[] => {
+  const dims = points[0]?.length || 0;
+  if (dims < 2) return [];
+
+  const projections: Projection[] = [];
+  const column = (rows: number[][], d: number) => rows.map(row => row[d]);
+
+  for (let i = 0; i < dims; i++) {
+    for (let j = i + 1; j < dims; j++) {
+      // Keep the historical orientation for the first pair so existing polygons still line up
+      const [xDim, yDim] = i === 0 && j === 1 ? [1, 0] : [i, j];
+      projections.push({
+        id: `ch:${xDim}:${yDim}`,
+        label: `${labels[xDim]} / ${labels[yDim]}`,
+        xLabel: labels[xDim],
+        yLabel: labels[yDim],
+        x: column(points, xDim),
+        y: column(points, yDim)
+      });
+    }
+  }
+
+  const { scores, explained } = principalComponents(points);
+  const componentCount = Math.min(dims, 3);
+  const pcLabel = (c: number) => `PC${c + 1} (${Math.round(explained[c] * 100)}%)`;
+
+  for (let i = 0; i < componentCount; i++) {
+    for (let j = i + 1; j < componentCount; j++) {
+      projections.push({
+        id: `pc:${i}:${j}`,
+        label: `PC${i + 1} / PC${j + 1}`,
+        xLabel: pcLabel(i),
+        yLabel: pcLabel(j),
+        x: column(scores, i),
+        y: column(scores, j)
+      });
+    }
+  }
+
+  return projections;
+};
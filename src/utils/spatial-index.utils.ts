@@ -0,0 +1,121 @@
+// SketchToCad-Frontend/src/utils/spatial-index.utils.ts
+//
+// Uniform grid over 2-D point data. Large site plans have tens of thousands of
+// beds, so hover hit-testing and polygon membership only look at the cells a
+// query touches instead of scanning every point.
+import { Point } from '../app/types/geometry/Point';
+import { pointInPolygon } from './geometry.utils';
+
+export interface DataBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface GridIndex {
+  bounds: DataBounds;
+  // Indices of points inside the rectangle, in no particular order
+  queryRect: (minX: number, minY: number, maxX: number, maxY: number) => number[];
+}
+
+// Single pass instead of Math.min(...array), which also overflows the call stack on huge inputs
+export const computeBounds = (xs: number[], ys: number[]): DataBounds => {
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+
+  for (let i = 0; i < xs.length; i++) {
+    if (xs[i] < minX) minX = xs[i];
+    if (xs[i] > maxX) maxX = xs[i];
+    if (ys[i] < minY) minY = ys[i];
+    if (ys[i] > maxY) maxY = ys[i];
+  }
+
+  if (xs.length === 0) return { minX: 0, maxX: 1, minY: 0, maxY: 1 };
+
+  // Keep a non-zero span so a flat channel still maps onto the canvas
+  return {
+    minX,
+    maxX: maxX > minX ? maxX : minX + 1,
+    minY,
+    maxY: maxY > minY ? maxY : minY + 1
+  };
+};
+
+// Aims for a handful of points per cell on average
+export const createGridIndex = (xs: number[], ys: number[], targetPerCell = 4): GridIndex => {
+  const bounds = computeBounds(xs, ys);
+  const cellsPerSide = Math.max(1, Math.min(512, Math.round(Math.sqrt(xs.length / targetPerCell))));
+  const cellWidth = (bounds.maxX - bounds.minX) / cellsPerSide;
+  const cellHeight = (bounds.maxY - bounds.minY) / cellsPerSide;
+
+  const column = (x: number) => Math.max(0, Math.min(cellsPerSide - 1, Math.floor((x - bounds.minX) / cellWidth)));
+  const row = (y: number) => Math.max(0, Math.min(cellsPerSide - 1, Math.floor((y - bounds.minY) / cellHeight)));
+
+  // Counting sort of point indices by cell: cellStart[c]..cellStart[c + 1] holds cell c
+  const cellOf = new Int32Array(xs.length);
+  const cellStart = new Int32Array(cellsPerSide * cellsPerSide + 1);
+  for (let i = 0; i < xs.length; i++) {
+    cellOf[i] = row(ys[i]) * cellsPerSide + column(xs[i]);
+    cellStart[cellOf[i] + 1]++;
+  }
+  for (let c = 0; c < cellsPerSide * cellsPerSide; c++) cellStart[c + 1] += cellStart[c];
+
+  const entries = new Int32Array(xs.length);
+  const fill = cellStart.slice(0, -1);
+  for (let i = 0; i < xs.length; i++) entries[fill[cellOf[i]]++] = i;
+
+  const queryRect = (minX: number, minY: number, maxX: number, maxY: number): number[] => {
+    if (maxX < bounds.minX || minX > bounds.maxX || maxY < bounds.minY || minY > bounds.maxY) return [];
+
+    const result: number[] = [];
+    for (let r = row(minY); r <= row(maxY); r++) {
+      for (let c = column(minX); c <= column(maxX); c++) {
+        const cell = r * cellsPerSide + c;
+        for (let e = cellStart[cell]; e < cellStart[cell + 1]; e++) {
+          const i = entries[e];
+          if (xs[i] >= minX && xs[i] <= maxX && ys[i] >= minY && ys[i] <= maxY) result.push(i);
+        }
+      }
+    }
+    return result;
+  };
+
+  return { bounds, queryRect };
+};
+
+// Points of the index inside the polygon; only candidates within its bounding box are ray-cast
+export const queryPolygon = (index: GridIndex, xs: number[], ys: number[], polygon: Point[]): number[] => {
+  if (polygon.length < 3) return [];
+
+  const { minX, maxX, minY, maxY } = computeBounds(polygon.map(p => p.x), polygon.map(p => p.y));
+  return index
+    .queryRect(minX, minY, maxX, maxY)
+    .filter(i => pointInPolygon({ x: xs[i], y: ys[i] }, polygon));
+};
+
+// Closest point within the given radii (which may differ per axis, e.g. in screen pixels)
+export const queryNearest = (
+  index: GridIndex,
+  xs: number[],
+  ys: number[],
+  x: number,
+  y: number,
+  radiusX: number,
+  radiusY: number
+): number | null => {
+  let best: number | null = null;
+  let bestDistance = Infinity;
+
+  index.queryRect(x - radiusX, y - radiusY, x + radiusX, y + radiusY).forEach(i => {
+    const distance = ((xs[i] - x) / radiusX) ** 2 + ((ys[i] - y) / radiusY) ** 2;
+    if (distance <= 1 && distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+
+  return best;
+};
@@ -0,0 +1,83 @@
+// SketchToCad-Frontend/src/utils/template.utils.ts
+//
+// Applying a saved clustering template to a sketch without the canvas: the
+// template preview and batch runs both go through evaluateTemplate.
+import { ClusteringTemplate } from '../app/types/clustering/ClusteringTemplate';
+import {
+  clusterMembersFromPolygons,
+  polygonMembership,
+  projectionKey,
+  ProjectionSpace
+} from './cluster-membership.utils';
+import { findConflicts, resolveConflicts } from './conflict.utils';
+
+export interface TemplateEvaluation {
+  // Cluster id -> bed indices, each bed in one cluster (earlier-drawn polygons win)
+  clusters: Record<string, number[]>;
+  // Polygon id -> beds it captures on its own
+  polygonBedCounts: Record<string, number>;
+  // Ids of polygons drawn in axes this sketch does not have
+  unavailablePolygons: string[];
+  // Ids of polygons drawn in principal-component axes, which are recomputed per sketch
+  principalAxisPolygons: string[];
+  conflictCount: number;
+  coveredBeds: number;
+}
+
+// Below this share of clustered beds a batch result is flagged for review
+export const DEFAULT_MIN_COVERAGE_PERCENT = 80;
+
+export const evaluateTemplate = (template: ClusteringTemplate, space: ProjectionSpace): TemplateEvaluation => {
+  const membership = polygonMembership(template.polygons, space);
+  const candidates = clusterMembersFromPolygons(template.polygons, membership, space, template.combine_mode);
+  const conflicts = findConflicts(candidates);
+
+  const clusters = resolveConflicts(candidates, conflicts, (bedIndex, clusterId) => {
+    const order = template.polygons.findIndex(polygon =>
+      polygon.cluster_id === clusterId && membership.get(polygon.id)?.has(bedIndex)
+    );
+    return order >= 0 ? order : Infinity;
+  });
+
+  const available = new Set(space.projections.map(p => p.id));
+  return {
+    clusters,
+    polygonBedCounts: Object.fromEntries(
+      template.polygons.map(polygon => [polygon.id, membership.get(polygon.id)?.size || 0])
+    ),
+    unavailablePolygons: template.polygons.filter(p => !available.has(projectionKey(p))).map(p => p.id),
+    principalAxisPolygons: template.polygons.filter(p => projectionKey(p).startsWith('pc:')).map(p => p.id),
+    conflictCount: Object.keys(conflicts).length,
+    coveredBeds: new Set(Object.values(clusters).flat()).size
+  };
+};
+
+// Why an automatically clustered sketch should be checked by a person; empty when it looks fine
+export const templateReviewReasons = (
+  evaluation: TemplateEvaluation,
+  totalBeds: number,
+  minCoveragePercent = DEFAULT_MIN_COVERAGE_PERCENT
+): string[] => {
+  const reasons: string[] = [];
+  const coverage = totalBeds > 0 ? (evaluation.coveredBeds / totalBeds) * 100 : 0;
+
+  if (coverage < minCoveragePercent) {
+    reasons.push(`Only ${Math.round(coverage)}% of beds clustered`);
+  }
+
+  const emptyPolygons = Object.values(evaluation.polygonBedCounts).filter(count => count === 0).length;
+  if (emptyPolygons > 0) {
+    reasons.push(`${emptyPolygons} template polygon${emptyPolygons === 1 ? '' : 's'} captured no beds`);
+  }
+  if (evaluation.unavailablePolygons.length > 0) {
+    reasons.push(`${evaluation.unavailablePolygons.length} polygon(s) drawn in axes this sketch lacks`);
+  }
+  if (evaluation.principalAxisPolygons.length > 0) {
+    reasons.push('Template uses principal-component axes, which differ per sketch');
+  }
+  if (evaluation.conflictCount > 0) {
+    reasons.push(`${evaluation.conflictCount} bed(s) matched several clusters and were settled by drawing order`);
+  }
+
+  return reasons;
+};
@@ -0,0 +1,38 @@
+// SketchToCad-Frontend/src/workers/image-preflight.worker.ts
+//
+// Decoding and resampling multi-megapixel photos off the main thread.
+// Loaded by imagePreflightService through `new Worker(new URL(...))`.
+import {
+  decodeImage,
+  PreflightRequest,
+  PreflightResponse,
+  releaseDecodedImage,
+  renderImage
+} from '../utils/image-preflight.utils';
+
+const respond = (response: PreflightResponse) => {
+  self.postMessage(response);
+};
+
+self.addEventListener('message', async (event: MessageEvent<PreflightRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'release') {
+      releaseDecodedImage(request.key);
+      respond({ id: request.id, ok: true });
+      return;
+    }
+
+    const bitmap = await decodeImage(request.key, request.file);
+    if (request.type === 'inspect') {
+      respond({ id: request.id, ok: true, dimensions: { width: bitmap.width, height: bitmap.height } });
+      return;
+    }
+
+    const result = await renderImage(bitmap, request.transform, request.options);
+    respond({ id: request.id, ok: true, result });
+  } catch (err: unknown) {
+    respond({ id: request.id, ok: false, error: err instanceof Error ? err.message : String(err) });
+  }
+});